@@ -1,70 +1,299 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Header } from './components/Header';
 import { AudioVisualizer } from './components/AudioVisualizer';
-import { AudioPlayer } from './components/AudioPlayer';
+import { AudioPlayer, AudioPlayerHandle } from './components/AudioPlayer';
 import { FileUploader } from './components/FileUploader';
-import { transcribeAudio, generateSpeechFromText, improveTextForSpeech } from './services/geminiService';
-import { blobToBase64, formatTime, pcmToWavBlob } from './utils/audioUtils';
-import { RecordingState, AppMode, Voice, HistoryItem } from './types';
+import { TranscriptView } from './components/TranscriptView';
+import { TranscriptEditor } from './components/TranscriptEditor';
+import { GlossaryManager } from './components/GlossaryManager';
+import { TranscriptOutputPanel } from './components/TranscriptOutputPanel';
+import { ChunkProgressBar } from './components/ChunkProgressBar';
+import { HistoryBrowser } from './components/HistoryBrowser';
+import { VoiceBrowser } from './components/VoiceBrowser';
+import { SpeechStylePanel } from './components/SpeechStylePanel';
+import { BatchQueuePanel } from './components/BatchQueuePanel';
+import { TranscriptInsightsPanel } from './components/TranscriptInsightsPanel';
+import { SpeechMarkupEditor } from './components/SpeechMarkupEditor';
+import { PronunciationLexicon } from './components/PronunciationLexicon';
+import { resolveSpeechProvider } from './services/speechProvider';
+import { getErrorMessage, isAbortError } from './services/speechErrors';
+import { transcribeLongAudio } from './services/transcriptionPipeline';
+import { createLiveTranscriber, LiveTranscriber, LiveTranscript } from './services/liveTranscription';
+import { BatchQueue, buildTranscriptArchive, createBatchQueue } from './services/batchQueue';
+import { VOICE_CATALOG, TTS_LANGUAGES, getVoicePreviewUrl } from './services/voiceCatalog';
+import { planSpeechChunks, planDialogueChunks, synthesizeSpeechChunks, assembleSpeech, SpeechChunk, CompiledDialogueLine } from './services/longFormSpeech';
+import { loadHistory, saveHistory, saveHistoryAudio, deleteHistoryAudio, clearHistoryAudio, getStorageUsage, StorageUsage, loadTranscriptionHistory, saveTranscription, deleteTranscription } from './services/historyStorage';
+import { formatTime, formatBytes, pcmToWavBlob, DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, resolveMediaMimeType } from './utils/audioUtils';
+import { serializeSubtitles, SubtitleFormat, SUBTITLE_MIME_TYPES } from './utils/subtitleUtils';
+import { AUDIO_EXPORT_FORMATS, AudioExportOptions, exportAudio, titleFromText } from './utils/audioExport';
+import { assignSpeakerVoices, formatDialogueScript, getDialogueSpeakers, parseDialogueScript } from './utils/dialogueUtils';
+import { DEFAULT_SPEECH_STYLE, describeSpeechStyle } from './utils/speechStyle';
+import { throwIfAborted } from './utils/asyncUtils';
+import { EditHistory, emptyEditHistory, recordEdit, redoEdit, undoEdit } from './utils/transcriptEditing';
+import { segmentsToText } from './utils/transcriptUtils';
+import { GLOSSARY_MIME_TYPES, GlossaryFileFormat, serializeGlossary } from './utils/glossaryUtils';
+import { DEFAULT_TRANSCRIPT_OUTPUT } from './utils/transcriptOutput';
+import { compileSpeechMarkup, parseSpeechMarkup, SpeechPart, speechPartsToText } from './utils/speechMarkup';
+import { RecordingState, AppMode, HistoryItem, TranscriptionResult, TranscriptionHistoryItem, TranscriptionMode, TranscriptSegment, ChunkProgress, SpeechProvider, BatchItem, SpeakerVoice, SpeechStyle, SpeechStylePreset, TranscriptAction, Glossary, TranscriptionOptions, TranscriptOutputOptions, PronunciationEntry } from './types';
 
 const MAX_TTS_CHARS = 8000;
-const HISTORY_STORAGE_KEY = 'audio_history_v1';
+const LONG_FORM_MAX_CHARS = 100000;
+const TTS_SAMPLE_RATE = 24000;
+const PARAGRAPH_GAP_OPTIONS = [0, 250, 500, 750, 1000, 1500, 2000];
 const VOICE_STORAGE_KEY = 'selected_voice_v1';
+const TTS_LANGUAGE_KEY = 'tts_language_v1';
+const DETECT_LANGUAGE_KEY = 'detect_language_v1';
+const SAVE_SOURCE_AUDIO_KEY = 'save_source_audio_v1';
+const TRANSCRIPTION_MODE_KEY = 'transcription_mode_v1';
+const SPEECH_STYLE_KEY = 'speech_style_v1';
+const STYLE_PRESETS_KEY = 'speech_style_presets_v1';
+const PREPROCESS_OPTIONS_KEY = 'audio_preprocess_v1';
+const GLOSSARIES_KEY = 'glossaries_v1';
+const SELECTED_GLOSSARY_KEY = 'selected_glossary_v1';
+const TRANSCRIPT_OUTPUT_KEY = 'transcript_output_v1';
+const PRONUNCIATION_LEXICON_KEY = 'tts_lexicon_v1';
+const LIVE_TIMESLICE_MS = 1000;
+const BATCH_CONCURRENCY = 2;
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ttml'];
 
-// Gemini 2.5 Flash TTS Voices - FEMALE ONLY as requested
-const VOICES: Voice[] = [
-  { id: 'Kore', name: 'Elena (Natural)', gender: 'Female' },
-  { id: 'Zephyr', name: 'Sofia (Calmada)', gender: 'Female' },
-];
+// What an audio was generated from; recorded on its history item
+type SpeechRequest = { text: string; voiceId: string; speakers?: SpeakerVoice[]; style: SpeechStyle; language: string };
+type SpeechJob = SpeechRequest & { chunks: SpeechChunk[] };
 
-const App: React.FC = () => {
+const defaultProvider = resolveSpeechProvider();
+
+interface AppProps {
+  provider?: SpeechProvider;
+}
+
+const App: React.FC<AppProps> = ({ provider = defaultProvider }) => {
   const [mode, setMode] = useState<AppMode>(AppMode.TRANSCRIPTION);
   
   // Transcription State
   const [recordingState, setRecordingState] = useState<RecordingState>(RecordingState.IDLE);
-  const [transcription, setTranscription] = useState<string>('');
+  const [transcription, setTranscription] = useState<TranscriptionHistoryItem | null>(null);
   const [duration, setDuration] = useState<number>(0);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[] | null>(null);
+  const [transcriptionHistory, setTranscriptionHistory] = useState<TranscriptionHistoryItem[]>([]);
+  const [saveSourceAudio, setSaveSourceAudio] = useState<boolean>(false);
+  const [transcriptionMode, setTranscriptionMode] = useState<TranscriptionMode>('batch');
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [detectLanguage, setDetectLanguage] = useState<boolean>(true);
+  const [transcriptOutput, setTranscriptOutput] = useState<TranscriptOutputOptions>(DEFAULT_TRANSCRIPT_OUTPUT);
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [selectedGlossaryId, setSelectedGlossaryId] = useState<string | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript | null>(null);
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null);
+  const [sourceAudio, setSourceAudio] = useState<{ url: string; mimeType: string } | null>(null);
+  const [playbackTime, setPlaybackTime] = useState<number>(0);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [insightAction, setInsightAction] = useState<TranscriptAction | null>(null);
+  const [insightError, setInsightError] = useState<string | null>(null);
+  const [isEditingTranscript, setIsEditingTranscript] = useState<boolean>(false);
+  const [transcriptEdits, setTranscriptEdits] = useState<EditHistory<TranscriptSegment[]>>(emptyEditHistory);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
   // TTS State
   const [ttsText, setTtsText] = useState<string>('');
-  const [selectedVoice, setSelectedVoice] = useState<string>(VOICES[0].id);
+  const [selectedVoice, setSelectedVoice] = useState<string>(VOICE_CATALOG[0].id);
+  const [ttsLanguage, setTtsLanguage] = useState<string>(TTS_LANGUAGES[0].code);
   const [isGeneratingSpeech, setIsGeneratingSpeech] = useState<boolean>(false);
   const [isImprovingText, setIsImprovingText] = useState<boolean>(false);
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState<boolean>(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isLongForm, setIsLongForm] = useState<boolean>(false);
+  const [paragraphGapMs, setParagraphGapMs] = useState<number>(750);
+  const [speechJob, setSpeechJob] = useState<SpeechJob | null>(null);
+  const [isDialogue, setIsDialogue] = useState<boolean>(false);
+  const [showVoiceBrowser, setShowVoiceBrowser] = useState<boolean>(false);
+  const [speechStyle, setSpeechStyle] = useState<SpeechStyle>(DEFAULT_SPEECH_STYLE);
+  const [stylePresets, setStylePresets] = useState<SpeechStylePreset[]>([]);
+  const [speakerVoices, setSpeakerVoices] = useState<SpeakerVoice[]>([]);
+  const [lexicon, setLexicon] = useState<PronunciationEntry[]>([]);
+  const [isRegenerateRequested, setIsRegenerateRequested] = useState<boolean>(false);
 
   // Refs
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const meterContextRef = useRef<AudioContext | null>(null);
+  const sourcePlayerRef = useRef<AudioPlayerHandle>(null);
+  const ownedSourceUrlRef = useRef<string | null>(null);
   const timerRef = useRef<number | null>(null);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+  const improveAbortRef = useRef<AbortController | null>(null);
+  const insightAbortRef = useRef<AbortController | null>(null);
+  const batchQueueRef = useRef<BatchQueue | null>(null);
+  // The queue outlives renders, so it calls through this ref to see current settings
+  const transcribeBatchItemRef = useRef<(item: BatchItem, signal: AbortSignal) => Promise<TranscriptionHistoryItem>>();
+  // Lets async handlers see edits made after they started
+  const transcriptionRef = useRef<TranscriptionHistoryItem | null>(null);
+  transcriptionRef.current = transcription;
 
   // Load persistence
   useEffect(() => {
-    const savedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
-    if (savedHistory) {
+    loadHistory()
+      .then(setHistory)
+      .catch(e => console.error("Failed to load history", e))
+      .finally(() => setIsHistoryLoaded(true));
+    loadTranscriptionHistory()
+      .then(setTranscriptionHistory)
+      .catch(e => console.error("Failed to load transcription history", e));
+    refreshStorageUsage();
+    
+    setSaveSourceAudio(localStorage.getItem(SAVE_SOURCE_AUDIO_KEY) === 'true');
+    setTranscriptionMode(localStorage.getItem(TRANSCRIPTION_MODE_KEY) === 'live' ? 'live' : 'batch');
+
+    const savedPreprocess = localStorage.getItem(PREPROCESS_OPTIONS_KEY);
+    if (savedPreprocess) {
       try {
-        setHistory(JSON.parse(savedHistory));
+        setPreprocessOptions({ ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(savedPreprocess) });
       } catch (e) {
-        console.error("Failed to parse history", e);
+        console.error("Failed to parse audio preprocessing options", e);
       }
     }
-    
+
+    const savedOutput = localStorage.getItem(TRANSCRIPT_OUTPUT_KEY);
+    if (savedOutput) {
+      try {
+        setTranscriptOutput({ ...DEFAULT_TRANSCRIPT_OUTPUT, ...JSON.parse(savedOutput) });
+      } catch (e) {
+        console.error("Failed to parse transcript output options", e);
+      }
+    }
+
+    try {
+      const savedGlossaries = localStorage.getItem(GLOSSARIES_KEY);
+      if (savedGlossaries) setGlossaries(JSON.parse(savedGlossaries));
+      setSelectedGlossaryId(localStorage.getItem(SELECTED_GLOSSARY_KEY));
+    } catch (e) {
+      console.error("Failed to parse glossaries", e);
+    }
+
+    try {
+      const savedStyle = localStorage.getItem(SPEECH_STYLE_KEY);
+      if (savedStyle) setSpeechStyle({ ...DEFAULT_SPEECH_STYLE, ...JSON.parse(savedStyle) });
+      const savedPresets = localStorage.getItem(STYLE_PRESETS_KEY);
+      if (savedPresets) setStylePresets(JSON.parse(savedPresets));
+    } catch (e) {
+      console.error("Failed to parse speech style settings", e);
+    }
+
+    try {
+      const savedLexicon = localStorage.getItem(PRONUNCIATION_LEXICON_KEY);
+      if (savedLexicon) setLexicon(JSON.parse(savedLexicon));
+    } catch (e) {
+      console.error("Failed to parse pronunciation lexicon", e);
+    }
+
     const savedVoice = localStorage.getItem(VOICE_STORAGE_KEY);
-    if (savedVoice && VOICES.some(v => v.id === savedVoice)) {
+    if (savedVoice && VOICE_CATALOG.some(v => v.id === savedVoice)) {
       setSelectedVoice(savedVoice);
     }
+
+    const savedLanguage = localStorage.getItem(TTS_LANGUAGE_KEY);
+    if (savedLanguage && TTS_LANGUAGES.some(l => l.code === savedLanguage)) {
+      setTtsLanguage(savedLanguage);
+    }
+    setDetectLanguage(localStorage.getItem(DETECT_LANGUAGE_KEY) !== 'false');
   }, []);
 
   // Save persistence
   useEffect(() => {
-    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
-  }, [history]);
+    // Wait for the initial load so the empty initial state doesn't overwrite saved history
+    if (isHistoryLoaded) saveHistory(history);
+  }, [history, isHistoryLoaded]);
 
   useEffect(() => {
     localStorage.setItem(VOICE_STORAGE_KEY, selectedVoice);
   }, [selectedVoice]);
 
+  useEffect(() => {
+    localStorage.setItem(TTS_LANGUAGE_KEY, ttsLanguage);
+  }, [ttsLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem(DETECT_LANGUAGE_KEY, String(detectLanguage));
+  }, [detectLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem(SAVE_SOURCE_AUDIO_KEY, String(saveSourceAudio));
+  }, [saveSourceAudio]);
+
+  useEffect(() => {
+    localStorage.setItem(TRANSCRIPTION_MODE_KEY, transcriptionMode);
+  }, [transcriptionMode]);
+
+  useEffect(() => {
+    localStorage.setItem(PREPROCESS_OPTIONS_KEY, JSON.stringify(preprocessOptions));
+  }, [preprocessOptions]);
+
+  useEffect(() => {
+    localStorage.setItem(TRANSCRIPT_OUTPUT_KEY, JSON.stringify(transcriptOutput));
+  }, [transcriptOutput]);
+
+  useEffect(() => {
+    localStorage.setItem(GLOSSARIES_KEY, JSON.stringify(glossaries));
+  }, [glossaries]);
+
+  useEffect(() => {
+    if (selectedGlossaryId) localStorage.setItem(SELECTED_GLOSSARY_KEY, selectedGlossaryId);
+    else localStorage.removeItem(SELECTED_GLOSSARY_KEY);
+  }, [selectedGlossaryId]);
+
+  useEffect(() => {
+    localStorage.setItem(SPEECH_STYLE_KEY, JSON.stringify(speechStyle));
+  }, [speechStyle]);
+
+  useEffect(() => {
+    localStorage.setItem(STYLE_PRESETS_KEY, JSON.stringify(stylePresets));
+  }, [stylePresets]);
+
+  useEffect(() => {
+    localStorage.setItem(PRONUNCIATION_LEXICON_KEY, JSON.stringify(lexicon));
+  }, [lexicon]);
+
+  // Runs after the render that applied a history item's text and settings, so generation
+  // reads them instead of the settings from before the click
+  useEffect(() => {
+    if (!isRegenerateRequested) return;
+    setIsRegenerateRequested(false);
+    handleGenerateSpeech();
+  }, [isRegenerateRequested]);
+
+  // Insights and undo steps belong to one transcript; a request still running for another one is dropped
+  useEffect(() => {
+    cancelRequest(insightAbortRef);
+    setInsightAction(null);
+    setInsightError(null);
+    setIsEditingTranscript(false);
+    setTranscriptEdits(emptyEditHistory());
+  }, [transcription?.id]);
+
+  const refreshStorageUsage = () => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.error("Failed to estimate storage usage", e));
+  };
+
+  // Starts a cancellable request, aborting whichever request the same ref was tracking
+  const startRequest = (ref: React.MutableRefObject<AbortController | null>): AbortSignal => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller.signal;
+  };
+
+  const cancelRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    ref.current = null;
+  };
+
+  const selectedGlossary = glossaries.find(g => g.id === selectedGlossaryId);
+  const transcriptionOptions: TranscriptionOptions = { detectLanguage, glossary: selectedGlossary, output: transcriptOutput };
+
   const startTimer = useCallback(() => {
     setDuration(0);
     timerRef.current = window.setInterval(() => {
@@ -81,9 +310,40 @@ const App: React.FC = () => {
 
   // --- Transcription Handlers ---
 
+  // Routes the microphone into an analyser for the live waveform and level meter
+  const startLevelMeter = (stream: MediaStream) => {
+    try {
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      meterContextRef.current = audioContext;
+      setMicAnalyser(analyser);
+    } catch (e) {
+      // The recording itself doesn't depend on the meter
+      console.warn("Could not start the level meter", e);
+    }
+  };
+
+  const stopLevelMeter = () => {
+    meterContextRef.current?.close().catch(() => undefined);
+    meterContextRef.current = null;
+    setMicAnalyser(null);
+  };
+
+  // Source audio URLs created here are revoked when replaced; history URLs belong to the history item
+  const replaceSourceAudio = (next: { url: string; mimeType: string } | null, isOwned: boolean = false) => {
+    if (ownedSourceUrlRef.current) URL.revokeObjectURL(ownedSourceUrlRef.current);
+    ownedSourceUrlRef.current = next && isOwned ? next.url : null;
+    setSourceAudio(next);
+    setPlaybackTime(0);
+  };
+
   const handleStartRecording = async () => {
     setErrorMsg(null);
-    setTranscription('');
+    setTranscription(null);
+    setLiveTranscript(null);
+    replaceSourceAudio(null);
     
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -99,22 +359,41 @@ const App: React.FC = () => {
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
 
+      let liveTranscriber: LiveTranscriber | null = null;
+      let liveSignal: AbortSignal | null = null;
+      if (transcriptionMode === 'live') {
+        const signal = startRequest(transcriptionAbortRef);
+        liveSignal = signal;
+        liveTranscriber = createLiveTranscriber(provider, mimeType, transcript => {
+          if (!signal.aborted) setLiveTranscript(transcript);
+        }, signal, { transcription: transcriptionOptions });
+        setLiveTranscript({ committed: [], tentative: [] });
+      }
+
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          liveTranscriber?.addChunk(event.data);
         }
       };
 
       mediaRecorder.onstop = async () => {
         stopTimer();
+        stopLevelMeter();
         const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
         const tracks = stream.getTracks();
         tracks.forEach(track => track.stop()); // Stop the mic
 
-        await processAudio(audioBlob, mimeType);
+        if (liveTranscriber && liveSignal) {
+          await finishLiveTranscription(liveTranscriber, liveSignal, audioBlob, mimeType);
+        } else {
+          await processAudio(audioBlob, mimeType, 'microphone');
+        }
       };
 
-      mediaRecorder.start();
+      // Live mode needs the audio in timeslices to transcribe while recording
+      mediaRecorder.start(liveTranscriber ? LIVE_TIMESLICE_MS : undefined);
+      startLevelMeter(stream);
       setRecordingState(RecordingState.RECORDING);
       startTimer();
 
@@ -133,98 +412,476 @@ const App: React.FC = () => {
 
   const handleFileUpload = async (file: File) => {
     setErrorMsg(null);
-    setTranscription('');
-    
-    if (file.size > 25 * 1024 * 1024) { // 25MB limit check (optional, but good practice)
-      setErrorMsg("File is too large. Please upload a file smaller than 25MB.");
-      return;
-    }
+    setTranscription(null);
+    setLiveTranscript(null);
+    replaceSourceAudio(null);
 
     try {
-      // Create a blob from the file to reuse existing processAudio
-      const blob = new Blob([file], { type: file.type });
-      await processAudio(blob, file.type);
+      // Browsers leave the type empty for some containers, so fall back to the extension
+      const mimeType = resolveMediaMimeType(file);
+      const blob = new Blob([file], { type: mimeType });
+      await processAudio(blob, mimeType, file.name);
     } catch (err) {
        console.error("File upload error", err);
        setErrorMsg("Error reading file.");
     }
   };
 
-  const processAudio = async (blob: Blob, mimeType: string) => {
+  const handleFilesSelected = (files: File[]) => {
+    // A single file with no batch running keeps the direct flow with chunk progress
+    if (files.length === 1 && batchItems.length === 0) {
+      handleFileUpload(files[0]);
+      return;
+    }
+    batchQueueRef.current ??= createBatchQueue(
+      (item, signal) => transcribeBatchItemRef.current!(item, signal),
+      setBatchItems,
+      BATCH_CONCURRENCY
+    );
+    batchQueueRef.current.add(files);
+  };
+
+  transcribeBatchItemRef.current = async (item, signal) => {
+    const result = await transcribeLongAudio(provider, item.file, item.mimeType, undefined, signal, preprocessOptions, transcriptionOptions);
+    throwIfAborted(signal);
+    return addTranscriptionToHistory(result, item.file, item.mimeType, item.file.name);
+  };
+
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.result || recordingState === RecordingState.RECORDING || recordingState === RecordingState.PROCESSING) return;
+    setErrorMsg(null);
+    setLiveTranscript(null);
+    // The history copy carries any insights generated since the file finished
+    const saved = item.result;
+    setTranscription(transcriptionHistory.find(t => t.id === saved.id) ?? saved);
+    replaceSourceAudio({ url: URL.createObjectURL(item.file), mimeType: item.mimeType }, true);
+    setRecordingState(RecordingState.COMPLETED);
+  };
+
+  const handleDownloadBatch = () => {
+    // Files opened and edited since they finished are exported as edited
+    const latest = batchItems.map(item => ({
+      ...item,
+      result: item.result && (transcriptionHistory.find(t => t.id === item.result!.id) ?? item.result),
+    }));
+    const url = URL.createObjectURL(buildTranscriptArchive(latest));
+    handleDownload(url, `transcripciones-${Date.now()}.zip`);
+    URL.revokeObjectURL(url);
+  };
+
+  const processAudio = async (blob: Blob, mimeType: string, source: string) => {
+    const signal = startRequest(transcriptionAbortRef);
     setRecordingState(RecordingState.PROCESSING);
+    setChunkProgress(null);
     try {
-      const base64Audio = await blobToBase64(blob);
-      const result = await transcribeAudio(base64Audio, mimeType);
-      setTranscription(result);
+      const result = await transcribeLongAudio(provider, blob, mimeType, progress => {
+        if (!signal.aborted) setChunkProgress(progress);
+      }, signal, preprocessOptions, transcriptionOptions);
+      if (signal.aborted) return;
+      setTranscription(addTranscriptionToHistory(result, blob, mimeType, source));
+      replaceSourceAudio({ url: URL.createObjectURL(blob), mimeType }, true);
       setRecordingState(RecordingState.COMPLETED);
     } catch (err) {
-      setErrorMsg("Failed to transcribe audio. Please try again.");
+      if (signal.aborted || isAbortError(err)) return;
+      setErrorMsg(getErrorMessage(err, "Failed to transcribe audio. Please try again."));
       setRecordingState(RecordingState.ERROR);
+    } finally {
+      if (!signal.aborted) setChunkProgress(null);
     }
   };
 
+  const finishLiveTranscription = async (transcriber: LiveTranscriber, signal: AbortSignal, blob: Blob, mimeType: string) => {
+    setRecordingState(RecordingState.PROCESSING);
+    try {
+      const result = await transcriber.finish();
+      if (signal.aborted) return;
+      setTranscription(addTranscriptionToHistory(result, blob, mimeType, 'microphone'));
+      setLiveTranscript(null);
+      replaceSourceAudio({ url: URL.createObjectURL(blob), mimeType }, true);
+      setRecordingState(RecordingState.COMPLETED);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      // The committed live text stays on screen so nothing that was dictated is lost
+      setErrorMsg(getErrorMessage(err, "Failed to transcribe audio. Please try again."));
+      setRecordingState(RecordingState.ERROR);
+    }
+  };
+
+  const handleCancelTranscription = () => {
+    cancelRequest(transcriptionAbortRef);
+    setChunkProgress(null);
+    setLiveTranscript(null);
+    setRecordingState(RecordingState.IDLE);
+  };
+
+  const addTranscriptionToHistory = (result: TranscriptionResult, blob: Blob, mimeType: string, source: string): TranscriptionHistoryItem => {
+    const item: TranscriptionHistoryItem = {
+      ...result,
+      // Batch items can finish in the same millisecond, so the id can't come from the clock
+      id: crypto.randomUUID(),
+      source,
+      mimeType,
+      audioUrl: saveSourceAudio ? URL.createObjectURL(blob) : undefined,
+    };
+    setTranscriptionHistory(prev => [item, ...prev]);
+
+    saveTranscription(item, saveSourceAudio ? blob : undefined)
+      .then(refreshStorageUsage)
+      .catch(e => {
+        console.error("Failed to store transcription", e);
+        setErrorMsg("Could not save the transcription to history. Free up space by deleting old history items.");
+      });
+    return item;
+  };
+
+  // Replaces the open transcript and its history entry after an edit or a new insight
+  const updateSavedTranscription = (updated: TranscriptionHistoryItem) => {
+    setTranscription(updated);
+    setTranscriptionHistory(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+    saveTranscription(updated)
+      .then(refreshStorageUsage)
+      .catch(e => console.error("Failed to store transcription changes", e));
+  };
+
+  const replaceTranscriptSegments = (segments: TranscriptSegment[]) => {
+    if (!transcription) return;
+    updateSavedTranscription({ ...transcription, segments, text: segmentsToText(segments) });
+  };
+
+  const handleEditTranscript = (segments: TranscriptSegment[]) => {
+    if (!transcription) return;
+    setTranscriptEdits(prev => recordEdit(prev, transcription.segments));
+    replaceTranscriptSegments(segments);
+  };
+
+  const handleUndoTranscriptEdit = () => {
+    const step = transcription && undoEdit(transcriptEdits, transcription.segments);
+    if (!step) return;
+    setTranscriptEdits(step.history);
+    replaceTranscriptSegments(step.value);
+  };
+
+  const handleRedoTranscriptEdit = () => {
+    const step = transcription && redoEdit(transcriptEdits, transcription.segments);
+    if (!step) return;
+    setTranscriptEdits(step.history);
+    replaceTranscriptSegments(step.value);
+  };
+
+  const handleRunInsight = async (action: TranscriptAction, targetLanguage?: string) => {
+    if (!transcription) return;
+    const item = transcription;
+    const signal = startRequest(insightAbortRef);
+    setInsightAction(action);
+    setInsightError(null);
+    try {
+      const insights = await provider.analyzeTranscript(action, item.segments, signal, targetLanguage);
+      // Merged into the latest version so edits made while waiting are kept
+      const latest = transcriptionRef.current;
+      if (signal.aborted || latest?.id !== item.id) return;
+      updateSavedTranscription({ ...latest, insights: { ...latest.insights, ...insights } });
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      setInsightError(getErrorMessage(err, "Failed to process the transcript. Please try again."));
+    } finally {
+      if (!signal.aborted) setInsightAction(null);
+    }
+  };
+
+  const handleCancelInsight = () => {
+    cancelRequest(insightAbortRef);
+    setInsightAction(null);
+  };
+
+  const handleOpenTranscription = (item: TranscriptionHistoryItem) => {
+    setMode(AppMode.TRANSCRIPTION);
+    setErrorMsg(null);
+    setLiveTranscript(null);
+    setTranscription(item);
+    replaceSourceAudio(item.audioUrl ? { url: item.audioUrl, mimeType: item.mimeType } : null);
+    setDuration(item.duration ?? 0);
+    setRecordingState(RecordingState.COMPLETED);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDeleteTranscription = async (item: TranscriptionHistoryItem) => {
+    setTranscriptionHistory(prev => prev.filter(t => t.id !== item.id));
+    if (item.audioUrl && item.audioUrl === sourceAudio?.url) replaceSourceAudio(null);
+    if (item.audioUrl) URL.revokeObjectURL(item.audioUrl);
+    try {
+      await deleteTranscription(item.id);
+    } catch (e) {
+      console.error("Failed to delete transcription", e);
+    }
+    refreshStorageUsage();
+  };
+
   const handleCopyTranscription = () => {
     if (transcription) {
-      navigator.clipboard.writeText(transcription);
+      navigator.clipboard.writeText(transcription.text);
     }
   };
 
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    if (!transcription) return;
+    const content = serializeSubtitles(transcription.segments, format, {
+      language: transcription.detectedLanguage,
+    });
+    const url = URL.createObjectURL(new Blob([content], { type: SUBTITLE_MIME_TYPES[format] }));
+    handleDownload(url, `transcripcion-${Date.now()}.${format}`);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadSourceAudio = () => {
+    if (!sourceAudio) return;
+    const extension = sourceAudio.mimeType.split(';')[0].split('/')[1] || 'audio';
+    handleDownload(sourceAudio.url, `audio-original-${Date.now()}.${extension}`);
+  };
+
   const handleResetTranscription = () => {
     setRecordingState(RecordingState.IDLE);
-    setTranscription('');
+    setTranscription(null);
+    setLiveTranscript(null);
+    replaceSourceAudio(null);
     setDuration(0);
     setErrorMsg(null);
   };
 
+  const handleSaveGlossary = (glossary: Glossary) => {
+    setGlossaries(prev => (prev.some(g => g.id === glossary.id)
+      ? prev.map(g => (g.id === glossary.id ? glossary : g))
+      : [...prev, glossary]));
+  };
+
+  const handleDeleteGlossary = (id: string) => {
+    setGlossaries(prev => prev.filter(g => g.id !== id));
+    if (selectedGlossaryId === id) setSelectedGlossaryId(null);
+  };
+
+  const handleExportGlossary = (glossary: Glossary, format: GlossaryFileFormat) => {
+    const url = URL.createObjectURL(new Blob([serializeGlossary(glossary, format)], { type: GLOSSARY_MIME_TYPES[format] }));
+    handleDownload(url, `${glossary.name.trim() || 'glosario'}.${format}`);
+    URL.revokeObjectURL(url);
+  };
+
   // --- TTS Handlers ---
 
+  const voiceNameOf = (voiceId: string) => VOICE_CATALOG.find(v => v.id === voiceId)?.name || 'Unknown';
+
+  const saveGeneratedAudio = (wavBlob: Blob, { text, voiceId, speakers, style, language }: SpeechRequest) => {
+    const audioUrl = URL.createObjectURL(wavBlob);
+    setGeneratedAudioUrl(audioUrl);
+
+    // Add to History
+    const id = crypto.randomUUID();
+    saveHistoryAudio(id, wavBlob)
+      .then(refreshStorageUsage)
+      .catch(e => {
+        console.error("Failed to store audio", e);
+        setErrorMsg("Could not save the audio for later. Free up space by deleting old history items.");
+      });
+
+    const newItem: HistoryItem = {
+      id,
+      text: text,
+      audioUrl: audioUrl,
+      voiceName: speakers
+        ? speakers.map(s => `${s.speaker}: ${voiceNameOf(s.voiceId)}`).join(' · ')
+        : voiceNameOf(voiceId),
+      timestamp: Date.now(),
+      speakers,
+      style,
+      language,
+    };
+
+    setHistory(prev => [newItem, ...prev]);
+  };
+
+  const handleDeleteHistoryItem = async (item: HistoryItem) => {
+    setHistory(prev => prev.filter(h => h.id !== item.id));
+    if (item.audioUrl) {
+      if (generatedAudioUrl === item.audioUrl) setGeneratedAudioUrl(null);
+      URL.revokeObjectURL(item.audioUrl);
+    }
+    try {
+      await deleteHistoryAudio(item.id);
+    } catch (e) {
+      console.error("Failed to delete history audio", e);
+    }
+    refreshStorageUsage();
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm("¿Borrar todo el historial y sus audios guardados?")) return;
+    history.forEach(item => item.audioUrl && URL.revokeObjectURL(item.audioUrl));
+    setHistory([]);
+    setGeneratedAudioUrl(null);
+    try {
+      await clearHistoryAudio();
+    } catch (e) {
+      console.error("Failed to clear history audio", e);
+    }
+    refreshStorageUsage();
+  };
+
+  // Generates the chunks of a long-form job that are not done yet, so it also serves as retry
+  const runSpeechJob = async (job: SpeechJob) => {
+    const signal = startRequest(speechAbortRef);
+    setIsGeneratingSpeech(true);
+    setErrorMsg(null);
+    setSpeechJob(job);
+
+    try {
+      const chunks = await synthesizeSpeechChunks(provider, job.chunks, job.voiceId, updated => {
+        if (!signal.aborted) setSpeechJob({ ...job, chunks: updated });
+      }, signal, { style: job.style, language: job.language });
+      if (signal.aborted) return;
+
+      const failed = chunks.find(c => c.status !== 'done');
+      if (failed) {
+        setSpeechJob({ ...job, chunks });
+        setErrorMsg(["Some fragments failed to generate.", failed.errorMessage, "Retry them to finish the audio."].filter(Boolean).join(' '));
+        return;
+      }
+
+      saveGeneratedAudio(assembleSpeech(chunks, paragraphGapMs), job);
+      setSpeechJob(null);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setErrorMsg(getErrorMessage(err, "Failed to generate speech."));
+    } finally {
+      if (!signal.aborted) setIsGeneratingSpeech(false);
+    }
+  };
+
+  const handleGenerateDialogue = async () => {
+    const lines: CompiledDialogueLine[] = parseDialogueScript(ttsText).map(line => ({
+      speaker: line.speaker,
+      parts: compileSpeechMarkup(parseSpeechMarkup(line.text).nodes, lexicon),
+    }));
+    if (lines.length === 0) {
+      setErrorMsg("Write each line of the dialogue as \"Name: text\".");
+      return;
+    }
+    const script = formatDialogueScript(lines.map(line => ({ speaker: line.speaker, text: speechPartsToText(line.parts) })));
+    const emphasis = Array.from(new Set(lines.flatMap(line => line.parts.flatMap(part => (part.type === 'speech' ? part.emphasis : [])))));
+    const job: SpeechJob = {
+      text: ttsText,
+      voiceId: dialogueSpeakers[0].voiceId,
+      speakers: dialogueSpeakers,
+      style: speechStyle,
+      language: ttsLanguage,
+      chunks: planDialogueChunks(lines, dialogueSpeakers),
+    };
+
+    // One request renders a natural conversation, but only for scripts the model takes in one go
+    // and without pauses, which are spliced into the audio between separately generated lines
+    const canMix = provider.synthesizeDialogue
+      && !lines.some(line => line.parts.some(part => part.type === 'pause'))
+      && dialogueSpeakers.length > 1
+      && dialogueSpeakers.length <= (provider.maxDialogueSpeakers ?? Infinity)
+      && script.length <= MAX_TTS_CHARS;
+    if (!canMix) {
+      await runSpeechJob(job);
+      return;
+    }
+
+    const signal = startRequest(speechAbortRef);
+    setIsGeneratingSpeech(true);
+    setErrorMsg(null);
+    setSpeechJob(null);
+    try {
+      const base64Audio = await provider.synthesizeDialogue!(script, dialogueSpeakers, signal, { style: speechStyle, language: ttsLanguage, emphasis });
+      if (signal.aborted) return;
+      saveGeneratedAudio(pcmToWavBlob(base64Audio), job);
+      setIsGeneratingSpeech(false);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.warn("Multi-speaker generation failed, generating line by line", err);
+      await runSpeechJob(job);
+    }
+  };
+
   const handleGenerateSpeech = async () => {
     if (!ttsText.trim()) return;
+
+    if (markup.errors.length > 0) {
+      setErrorMsg("Fix the markup errors highlighted in the text.");
+      return;
+    }
+
+    if (isDialogue) {
+      await handleGenerateDialogue();
+      return;
+    }
+
+    const parts: SpeechPart[] = compileSpeechMarkup(markup.nodes, lexicon);
+    if (!parts.some(part => part.type === 'speech')) {
+      setErrorMsg("The text has nothing to read aloud besides pauses.");
+      return;
+    }
+    const request: SpeechRequest = { text: ttsText, voiceId: selectedVoice, style: speechStyle, language: ttsLanguage };
+    const [first] = parts;
+
+    // Pauses are silence spliced between separately generated pieces, so text with pauses runs as a job
+    if (isLongForm || parts.length > 1 || first.type !== 'speech') {
+      await runSpeechJob({ ...request, chunks: planSpeechChunks(parts, !isLongForm) });
+      return;
+    }
     
+    const signal = startRequest(speechAbortRef);
     setIsGeneratingSpeech(true);
     setErrorMsg(null);
+    setSpeechJob(null);
     
     try {
-      const base64Audio = await generateSpeechFromText(ttsText, selectedVoice);
+      const base64Audio = await provider.synthesize(first.text, selectedVoice, signal, { style: speechStyle, language: ttsLanguage, emphasis: first.emphasis });
+      if (signal.aborted) return;
       
       // Convert PCM base64 to WAV Blob
-      const wavBlob = pcmToWavBlob(base64Audio);
-      const audioUrl = URL.createObjectURL(wavBlob);
-      
-      setGeneratedAudioUrl(audioUrl);
-      
-      // Add to History
-      const newItem: HistoryItem = {
-        id: Date.now().toString(),
-        text: ttsText,
-        audioUrl: audioUrl,
-        voiceName: VOICES.find(v => v.id === selectedVoice)?.name || 'Unknown',
-        timestamp: Date.now()
-      };
-      
-      setHistory(prev => [newItem, ...prev]);
+      saveGeneratedAudio(pcmToWavBlob(base64Audio), request);
 
       setIsGeneratingSpeech(false);
     } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
-      setErrorMsg("Failed to generate speech.");
+      setErrorMsg(getErrorMessage(err, "Failed to generate speech."));
       setIsGeneratingSpeech(false);
     }
   };
 
+  const handleRetrySpeechChunks = () => {
+    if (speechJob) runSpeechJob(speechJob);
+  };
+
+  const handleCancelSpeech = () => {
+    cancelRequest(speechAbortRef);
+    setIsGeneratingSpeech(false);
+    setSpeechJob(null);
+  };
+
   const handleImproveText = async () => {
     if (!ttsText.trim()) return;
+    const signal = startRequest(improveAbortRef);
     setIsImprovingText(true);
     try {
-      const improved = await improveTextForSpeech(ttsText);
+      const improved = await provider.improveText(ttsText, signal, ttsLanguage);
+      if (signal.aborted) return;
       setTtsText(improved);
     } catch (err) {
-      setErrorMsg("Failed to improve text.");
+      if (signal.aborted || isAbortError(err)) return;
+      setErrorMsg(getErrorMessage(err, "Failed to improve text."));
     } finally {
-      setIsImprovingText(false);
+      if (!signal.aborted) setIsImprovingText(false);
     }
   };
 
+  const handleCancelImproveText = () => {
+    cancelRequest(improveAbortRef);
+    setIsImprovingText(false);
+  };
+
   const handleDownload = (url: string, filename: string) => {
     const a = document.createElement('a');
     a.href = url;
@@ -234,32 +891,72 @@ const App: React.FC = () => {
     document.body.removeChild(a);
   };
 
+  const handleExportGeneratedAudio = async (options: AudioExportOptions) => {
+    if (!generatedAudioUrl) return;
+    const item = history.find(h => h.audioUrl === generatedAudioUrl);
+    const extension = AUDIO_EXPORT_FORMATS.find(f => f.format === options.format)?.extension ?? options.format;
+    try {
+      const wav = await (await fetch(generatedAudioUrl)).blob();
+      const encoded = await exportAudio(wav, TTS_SAMPLE_RATE, {
+        ...options,
+        tags: { title: titleFromText(item?.text ?? ttsText), artist: item?.voiceName },
+      });
+      const url = URL.createObjectURL(encoded);
+      handleDownload(url, `audio-vozai-${Date.now()}.${extension}`);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Failed to export audio", e);
+      setErrorMsg("Could not encode the audio in that format. Try WAV instead.");
+    }
+  };
+
+  // Restores the voice, or the speaker voices for dialogues, an item was generated with
+  const restoreHistoryVoices = (item: HistoryItem) => {
+    if (item.style) setSpeechStyle(item.style);
+    if (item.language) setTtsLanguage(item.language);
+    setIsDialogue(!!item.speakers);
+    if (item.speakers) {
+      setSpeakerVoices(item.speakers);
+      return;
+    }
+    const voice = VOICE_CATALOG.find(v => v.name === item.voiceName);
+    if (voice) setSelectedVoice(voice.id);
+  };
+
   const playHistoryItem = async (item: HistoryItem) => {
-    // If the audioURL is a blob URL that has been revoked (after refresh), we might need to handle it.
-    // However, since we can't persist Blob URLs, we rely on the user "Regenerating" if it's a fresh session,
-    // or just loading the text.
-    // For this session, it works. For persistence across refreshes, we can only persist text.
-    // Let's check if the blob exists (not possible easily), so we basically load the text and prompt to generate.
-    
     setTtsText(item.text);
-    const voice = VOICES.find(v => v.name === item.voiceName);
-    if (voice) setSelectedVoice(voice.id);
+    restoreHistoryVoices(item);
     
     // We scroll to top to show it's loaded
     window.scrollTo({ top: 0, behavior: 'smooth' });
     
-    // Check if the URL is likely valid (from this session)
-    if (item.audioUrl && item.audioUrl.startsWith('blob:')) {
-       // Ideally we would check validity, but we can just try setting it.
-       setGeneratedAudioUrl(item.audioUrl);
-    }
+    // Items migrated from the old localStorage history have no stored audio and must be regenerated
+    setGeneratedAudioUrl(item.audioUrl || null);
   };
   
   const handleRegenerateFromHistory = (item: HistoryItem) => {
       setTtsText(item.text);
-      const voice = VOICES.find(v => v.name === item.voiceName);
-      if (voice) setSelectedVoice(voice.id);
-      handleGenerateSpeech(); // Auto trigger generation
+      restoreHistoryVoices(item);
+      setIsRegenerateRequested(true); // Generates once the restored settings have been applied
+  };
+
+  const maxTtsChars = isLongForm || isDialogue ? LONG_FORM_MAX_CHARS : MAX_TTS_CHARS;
+  const markup = parseSpeechMarkup(ttsText);
+  const dialogueSpeakers = isDialogue
+    ? assignSpeakerVoices(getDialogueSpeakers(parseDialogueScript(ttsText)), VOICE_CATALOG.map(v => v.id), speakerVoices)
+    : [];
+
+  // Saving under an existing name updates that preset
+  const handleSaveStylePreset = (name: string) => {
+    setStylePresets(prev => {
+      const existing = prev.find(p => p.name === name);
+      const preset: SpeechStylePreset = { id: existing?.id ?? Date.now().toString(), name, style: speechStyle };
+      return existing ? prev.map(p => (p.id === existing.id ? preset : p)) : [...prev, preset];
+    });
+  };
+
+  const handleSpeakerVoiceChange = (speaker: string, voiceId: string) => {
+    setSpeakerVoices(prev => [...prev.filter(s => s.speaker !== speaker), { speaker, voiceId }]);
   };
 
   const clearText = () => {
@@ -274,14 +971,17 @@ const App: React.FC = () => {
       if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
         mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
       }
+      meterContextRef.current?.close().catch(() => undefined);
+      batchQueueRef.current?.cancel();
+      if (ownedSourceUrlRef.current) URL.revokeObjectURL(ownedSourceUrlRef.current);
       // Revoke URLs to avoid memory leaks
-      history.forEach(item => URL.revokeObjectURL(item.audioUrl));
+      history.forEach(item => item.audioUrl && URL.revokeObjectURL(item.audioUrl));
     };
   }, [stopTimer]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50 font-sans selection:bg-blue-500/30 pb-12">
-      <Header />
+      <Header statusLabel={provider.id === 'gemini' ? undefined : provider.name} />
 
       <main className="max-w-5xl mx-auto px-4 sm:px-6 py-8 flex flex-col items-center space-y-8">
         
@@ -307,6 +1007,16 @@ const App: React.FC = () => {
           >
             Text to Speech
           </button>
+          <button
+            onClick={() => { setMode(AppMode.HISTORY); setErrorMsg(null); }}
+            className={`flex-1 py-2.5 rounded-lg text-sm font-semibold transition-all duration-200 ${
+              mode === AppMode.HISTORY 
+                ? 'bg-slate-800 text-white shadow-md ring-1 ring-white/10' 
+                : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800/50'
+            }`}
+          >
+            Historial
+          </button>
         </div>
 
         {/* Global Error Message */}
@@ -334,9 +1044,9 @@ const App: React.FC = () => {
                     {formatTime(duration)}
                   </div>
 
-                  <div className="h-10 mb-6 w-full flex items-center justify-center relative z-10">
+                  <div className="min-h-10 mb-6 w-full flex items-center justify-center relative z-10">
                      {recordingState === RecordingState.RECORDING ? (
-                       <AudioVisualizer isRecording={true} />
+                       <AudioVisualizer isRecording={true} analyser={micAnalyser} />
                      ) : (
                        <div className="text-slate-500 text-sm font-medium bg-slate-800/50 px-3 py-1 rounded-full">
                          {recordingState === RecordingState.PROCESSING ? 'Procesando...' : 'Micrófono Listo'}
@@ -364,12 +1074,23 @@ const App: React.FC = () => {
                         <div className="w-6 h-6 bg-current rounded-md"></div>
                       </button>
                     ) : (
-                       <div className="w-16 h-16 flex items-center justify-center">
-                         <svg className="animate-spin h-8 w-8 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                       </div>
+                      <div className="flex flex-col items-center space-y-2">
+                        {chunkProgress ? (
+                           <div className="w-56 h-16 flex items-center">
+                             <ChunkProgressBar chunks={chunkProgress} />
+                           </div>
+                        ) : (
+                           <div className="w-16 h-16 flex items-center justify-center">
+                             <svg className="animate-spin h-8 w-8 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                           </div>
+                        )}
+                        <button onClick={handleCancelTranscription} className="text-xs text-slate-400 hover:text-white px-3 py-1 rounded-lg border border-slate-700 hover:border-slate-500 hover:bg-slate-800 transition-colors">
+                          Cancelar
+                        </button>
+                      </div>
                     )}
                   </div>
                 </div>
@@ -377,14 +1098,106 @@ const App: React.FC = () => {
                 {/* File Upload Card */}
                 <div className="h-full">
                    <FileUploader 
-                      onFileSelected={handleFileUpload} 
+                      onFilesSelected={handleFilesSelected} 
                       disabled={recordingState === RecordingState.RECORDING || recordingState === RecordingState.PROCESSING} 
                    />
                 </div>
             </div>
 
+            <div className="flex flex-wrap items-center justify-between gap-4 -mt-4 ml-1">
+              <div className="flex bg-slate-900/80 p-1 rounded-lg border border-slate-800" title="Modo de transcripción del micrófono">
+                {([['batch', 'Al terminar'], ['live', 'En vivo']] as [TranscriptionMode, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setTranscriptionMode(value)}
+                    disabled={recordingState === RecordingState.RECORDING || recordingState === RecordingState.PROCESSING}
+                    className={`px-3 py-1 rounded-md text-xs font-semibold transition-all disabled:cursor-not-allowed ${
+                      transcriptionMode === value
+                        ? 'bg-slate-800 text-white ring-1 ring-white/10'
+                        : 'text-slate-400 hover:text-slate-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center space-x-3 cursor-pointer text-sm text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={saveSourceAudio}
+                  onChange={(e) => setSaveSourceAudio(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+                />
+                <span>Guardar el audio original en el historial</span>
+              </label>
+              <div className="flex items-center gap-4 text-sm text-slate-400">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={detectLanguage}
+                    onChange={(e) => setDetectLanguage(e.target.checked)}
+                    disabled={recordingState === RecordingState.RECORDING || recordingState === RecordingState.PROCESSING}
+                    className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+                  />
+                  <span>Detectar idioma</span>
+                </label>
+                {([['trimSilence', 'Recortar silencios'], ['normalize', 'Normalizar volumen']] as [keyof PreprocessOptions, string][]).map(([option, label]) => (
+                  <label key={option} className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={preprocessOptions[option]}
+                      onChange={(e) => setPreprocessOptions(prev => ({ ...prev, [option]: e.target.checked }))}
+                      disabled={recordingState === RecordingState.PROCESSING}
+                      className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 space-y-3">
+              <span className="block text-sm text-slate-300">Formato de la transcripción</span>
+              <TranscriptOutputPanel
+                options={transcriptOutput}
+                onChange={setTranscriptOutput}
+                disabled={recordingState === RecordingState.RECORDING || recordingState === RecordingState.PROCESSING}
+              />
+            </div>
+
+            <details className="group bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3">
+              <summary className="flex items-center justify-between cursor-pointer list-none text-sm text-slate-300">
+                <span>Glosario</span>
+                <span className="text-xs text-slate-500 truncate ml-4">
+                  {selectedGlossary ? `${selectedGlossary.name} · ${selectedGlossary.terms.length} términos` : 'Ninguno'}
+                </span>
+              </summary>
+              <div className="mt-3">
+                <GlossaryManager
+                  glossaries={glossaries}
+                  selectedId={selectedGlossary ? selectedGlossary.id : null}
+                  onSelect={setSelectedGlossaryId}
+                  onSave={handleSaveGlossary}
+                  onDelete={handleDeleteGlossary}
+                  onExport={handleExportGlossary}
+                />
+              </div>
+            </details>
+
+            {batchItems.length > 0 && (
+              <BatchQueuePanel
+                items={batchItems}
+                activeId={batchItems.find(item => item.result && item.result.id === transcription?.id)?.id}
+                onOpen={handleOpenBatchItem}
+                onRetry={id => batchQueueRef.current?.retry(id)}
+                onDownloadAll={handleDownloadBatch}
+                onClearFinished={() => batchQueueRef.current?.clearFinished()}
+                onCancel={() => batchQueueRef.current?.cancel()}
+              />
+            )}
+
             {/* Transcription Result */}
-            {(transcription || recordingState === RecordingState.COMPLETED) && (
+            {(transcription || liveTranscript || recordingState === RecordingState.COMPLETED) && (
               <div className="w-full animate-fade-in-up">
                 <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shadow-xl ring-1 ring-white/5">
                   <div className="flex items-center justify-between px-4 py-3 bg-slate-800/50 border-b border-slate-800">
@@ -393,8 +1206,32 @@ const App: React.FC = () => {
                         <path fillRule="evenodd" d="M3 5a1 1 0 011-1h12a1 1 0 011 1v10a1 1 0 01-1 1H4a1 1 0 01-1-1V5zm3 1h9v2H6V6zm0 4h9v2H6v-2z" clipRule="evenodd" />
                       </svg>
                       Resultado
+                      {transcription?.detectedLanguage && (
+                        <span className="ml-2 text-[10px] font-bold tracking-wider text-slate-400 bg-slate-700/60 px-1.5 py-0.5 rounded" title="Idioma detectado">
+                          {transcription.detectedLanguage}
+                        </span>
+                      )}
                     </h3>
-                    <div className="flex space-x-1">
+                    <div className="flex items-center space-x-1">
+                      {transcription && transcription.segments.length > 0 && SUBTITLE_FORMATS.map(format => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportSubtitles(format)}
+                          className="px-2 py-1 text-[11px] font-bold uppercase tracking-wider text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                          title={`Descargar subtítulos .${format}`}
+                        >
+                          {format}
+                        </button>
+                      ))}
+                      {transcription && transcription.segments.length > 0 && (
+                        <button
+                          onClick={() => setIsEditingTranscript(prev => !prev)}
+                          className={`px-2 py-1 text-xs font-semibold rounded-lg transition-colors ${isEditingTranscript ? 'text-white bg-blue-600 hover:bg-blue-500' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                          title={isEditingTranscript ? 'Terminar de editar' : 'Editar hablantes, texto y segmentos'}
+                        >
+                          {isEditingTranscript ? 'Listo' : 'Editar'}
+                        </button>
+                      )}
                        <button 
                         onClick={handleCopyTranscription}
                         className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
@@ -415,14 +1252,58 @@ const App: React.FC = () => {
                       </button>
                     </div>
                   </div>
-                  <div className="p-6 bg-slate-900/50 min-h-[150px] text-lg leading-relaxed text-slate-200 whitespace-pre-wrap">
-                    {transcription}
+                  <div className="p-6 bg-slate-900/50 min-h-[150px]">
+                    {transcription && isEditingTranscript ? (
+                      <TranscriptEditor
+                        segments={transcription.segments}
+                        onChange={handleEditTranscript}
+                        onUndo={handleUndoTranscriptEdit}
+                        onRedo={handleRedoTranscriptEdit}
+                        canUndo={transcriptEdits.past.length > 0}
+                        canRedo={transcriptEdits.future.length > 0}
+                        onSeek={sourceAudio ? time => sourcePlayerRef.current?.seek(time) : undefined}
+                      />
+                    ) : transcription ? (
+                      <TranscriptView
+                        segments={transcription.segments}
+                        activeTime={sourceAudio ? playbackTime : undefined}
+                        onSeek={sourceAudio ? time => sourcePlayerRef.current?.seek(time) : undefined}
+                      />
+                    ) : liveTranscript && (
+                      <TranscriptView
+                        segments={liveTranscript.committed}
+                        tentativeSegments={liveTranscript.tentative}
+                        emptyMessage="Escuchando..."
+                      />
+                    )}
                   </div>
+                  {transcription && sourceAudio && (
+                    <div className="px-6 pb-6 bg-slate-900/50">
+                      <AudioPlayer
+                        ref={sourcePlayerRef}
+                        src={sourceAudio.url}
+                        onTimeUpdate={setPlaybackTime}
+                        onDownload={handleDownloadSourceAudio}
+                      />
+                    </div>
+                  )}
+                  {transcription && transcription.segments.length > 0 && (
+                    <TranscriptInsightsPanel
+                      key={transcription.id}
+                      insights={transcription.insights}
+                      runningAction={insightAction}
+                      error={insightError}
+                      defaultLanguage={ttsLanguage}
+                      onRun={handleRunInsight}
+                      onCancel={handleCancelInsight}
+                      onSeek={sourceAudio ? time => sourcePlayerRef.current?.seek(time) : undefined}
+                    />
+                  )}
                 </div>
               </div>
             )}
           </div>
-        ) : (
+        ) : mode === AppMode.TEXT_TO_SPEECH ? (
           // TTS UI
           <div className="w-full max-w-3xl animate-fade-in-up space-y-6">
             
@@ -436,8 +1317,9 @@ const App: React.FC = () => {
               <div className="flex justify-between items-end">
                 <label className="text-sm font-medium text-slate-300 ml-1">Editor de Texto</label>
                 <button 
-                  onClick={handleImproveText}
-                  disabled={isImprovingText || !ttsText.trim()}
+                  onClick={isImprovingText ? handleCancelImproveText : handleImproveText}
+                  disabled={!isImprovingText && !ttsText.trim()}
+                  title={isImprovingText ? 'Cancelar' : undefined}
                   className={`text-xs flex items-center space-x-1 px-3 py-1.5 rounded-lg border transition-all ${!ttsText.trim() ? 'opacity-50 cursor-not-allowed border-slate-800 text-slate-600' : 'border-indigo-500/20 bg-indigo-500/10 text-indigo-300 hover:bg-indigo-500/20 hover:border-indigo-500/30'}`}
                 >
                   {isImprovingText ? (
@@ -450,22 +1332,22 @@ const App: React.FC = () => {
                       <path fillRule="evenodd" d="M10.868 2.884c-.321-.772-1.415-.772-1.736 0l-1.83 4.401-4.753.381c-.833.067-1.171 1.107-.536 1.651l3.62 3.102-1.106 4.637c-.194.813.691 1.456 1.405 1.02L10 15.591l4.069 2.485c.713.436 1.598-.207 1.404-1.02l-1.106-4.637 3.62-3.102c.635-.544.297-1.584-.536-1.65l-4.752-.382-1.831-4.401z" clipRule="evenodd" />
                     </svg>
                   )}
-                  <span>Mejorar con IA</span>
+                  <span>{isImprovingText ? 'Cancelar mejora' : 'Mejorar con IA'}</span>
                 </button>
               </div>
               <div className="relative group">
                 <div className="absolute -inset-0.5 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl blur opacity-0 group-focus-within:opacity-20 transition duration-500"></div>
                 <div className="relative">
-                  <textarea
+                  <SpeechMarkupEditor
                     value={ttsText}
-                    onChange={(e) => setTtsText(e.target.value)}
-                    maxLength={MAX_TTS_CHARS}
-                    placeholder="Escribe aquí el texto que deseas transformar en audio..."
-                    className="w-full h-48 bg-slate-900 border border-slate-700 rounded-xl p-5 text-base text-slate-200 focus:outline-none focus:border-blue-500/50 resize-none transition-shadow placeholder:text-slate-600 leading-relaxed"
+                    onChange={setTtsText}
+                    errors={markup.errors}
+                    maxLength={maxTtsChars}
+                    placeholder={isDialogue ? "Ana: Hola, ¿qué tal?\nLuis: Muy bien, gracias..." : "Escribe aquí el texto que deseas transformar en audio..."}
                   />
                   <div className="flex justify-between items-center mt-2 px-1">
-                    <span className={`text-xs ${ttsText.length >= MAX_TTS_CHARS ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
-                      {ttsText.length}/{MAX_TTS_CHARS} caracteres
+                    <span className={`text-xs ${ttsText.length >= maxTtsChars ? 'text-red-400 font-bold' : 'text-slate-500'}`}>
+                      {ttsText.length}/{maxTtsChars} caracteres
                     </span>
                     {ttsText.length > 0 && (
                        <button onClick={clearText} className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1 transition-colors px-2 py-1 rounded hover:bg-slate-800">
@@ -486,11 +1368,13 @@ const App: React.FC = () => {
                 <label className="text-sm font-medium text-slate-300 ml-1">Idioma</label>
                 <div className="relative">
                   <select 
+                    value={ttsLanguage}
+                    onChange={(e) => setTtsLanguage(e.target.value)}
                     className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 block p-3.5 appearance-none cursor-pointer transition-shadow hover:bg-slate-800/80"
-                    defaultValue="es"
                   >
-                    <option value="es">Español (Latinoamérica)</option>
-                    <option value="en">English (US)</option>
+                    {TTS_LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code}>{language.label}</option>
+                    ))}
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-slate-400">
                     <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
@@ -499,15 +1383,26 @@ const App: React.FC = () => {
               </div>
 
               <div className="space-y-1.5">
-                <label className="text-sm font-medium text-slate-300 ml-1">Voz IA</label>
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-slate-300 ml-1">Voz IA</label>
+                  <button
+                    onClick={() => setShowVoiceBrowser(prev => !prev)}
+                    disabled={isDialogue}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:text-slate-600 transition-colors"
+                  >
+                    {showVoiceBrowser ? 'Ocultar catálogo' : 'Explorar voces'}
+                  </button>
+                </div>
                 <div className="relative">
                   <select 
                     value={selectedVoice}
                     onChange={(e) => setSelectedVoice(e.target.value)}
+                    disabled={isDialogue}
+                    title={isDialogue ? 'En modo diálogo cada hablante tiene su propia voz' : undefined}
                     className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 block p-3.5 appearance-none cursor-pointer transition-shadow hover:bg-slate-800/80"
                   >
-                    {VOICES.map(voice => (
-                      <option key={voice.id} value={voice.id}>{voice.name}</option>
+                    {VOICE_CATALOG.map(voice => (
+                      <option key={voice.id} value={voice.id}>{voice.name} · {voice.styles.join(', ')}</option>
                     ))}
                   </select>
                   <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-slate-400">
@@ -517,10 +1412,117 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {showVoiceBrowser && !isDialogue && (
+              <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-4">
+                <VoiceBrowser
+                  voices={VOICE_CATALOG}
+                  selectedId={selectedVoice}
+                  onSelect={setSelectedVoice}
+                  onPreview={voiceId => getVoicePreviewUrl(provider, voiceId)}
+                />
+              </div>
+            )}
+
+            {/* Speech Style */}
+            <details className="group bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3">
+              <summary className="flex items-center justify-between cursor-pointer list-none text-sm text-slate-300">
+                <span>Estilo de locución</span>
+                <span className="text-xs text-slate-500 truncate ml-4">{describeSpeechStyle(speechStyle) || 'Predeterminado'}</span>
+              </summary>
+              <div className="mt-3">
+                <SpeechStylePanel
+                  style={speechStyle}
+                  onChange={setSpeechStyle}
+                  presets={stylePresets}
+                  onSavePreset={handleSaveStylePreset}
+                  onDeletePreset={id => setStylePresets(prev => prev.filter(p => p.id !== id))}
+                />
+              </div>
+            </details>
+
+            <details className="group bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3">
+              <summary className="flex items-center justify-between cursor-pointer list-none text-sm text-slate-300">
+                <span>Pronunciación</span>
+                <span className="text-xs text-slate-500 ml-4">
+                  {lexicon.length === 0 ? 'Sin palabras' : lexicon.length === 1 ? '1 palabra' : `${lexicon.length} palabras`}
+                </span>
+              </summary>
+              <div className="mt-3">
+                <PronunciationLexicon entries={lexicon} onChange={setLexicon} />
+              </div>
+            </details>
+
+            {/* Dialogue Mode */}
+            <div className="bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3 space-y-3">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isDialogue}
+                  onChange={(e) => setIsDialogue(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+                />
+                <span className="text-sm text-slate-300">
+                  Modo diálogo <span className="text-slate-500">(una línea por turno: «Nombre: texto»)</span>
+                </span>
+              </label>
+              {isDialogue && (
+                dialogueSpeakers.length === 0 ? (
+                  <p className="text-xs text-slate-500 italic">Los hablantes aparecerán aquí al escribir el guion.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {dialogueSpeakers.map(({ speaker, voiceId }) => (
+                      <label key={speaker} className="flex items-center justify-between gap-2 text-sm text-slate-400">
+                        <span className="truncate font-medium text-slate-300">{speaker}</span>
+                        <select
+                          value={voiceId}
+                          onChange={(e) => handleSpeakerVoiceChange(speaker, e.target.value)}
+                          className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                        >
+                          {VOICE_CATALOG.map(voice => (
+                            <option key={voice.id} value={voice.id}>{voice.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+
+            {/* Long-form Mode */}
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-900/50 border border-slate-800 rounded-xl px-4 py-3">
+              <label className={`flex items-center space-x-3 ${isDialogue ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                <input
+                  type="checkbox"
+                  checked={isLongForm || isDialogue}
+                  disabled={isDialogue}
+                  onChange={(e) => setIsLongForm(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+                />
+                <span className="text-sm text-slate-300">
+                  Modo largo <span className="text-slate-500">(artículos y capítulos, hasta {LONG_FORM_MAX_CHARS.toLocaleString()} caracteres)</span>
+                </span>
+              </label>
+              {(isLongForm || isDialogue) && (
+                <label className="flex items-center space-x-2 text-sm text-slate-400">
+                  <span>{isDialogue ? 'Pausa entre turnos' : 'Pausa entre párrafos'}</span>
+                  <select
+                    value={paragraphGapMs}
+                    onChange={(e) => setParagraphGapMs(Number(e.target.value))}
+                    className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500"
+                  >
+                    {PARAGRAPH_GAP_OPTIONS.map(ms => (
+                      <option key={ms} value={ms}>{ms / 1000}s</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+
             {/* Generate Button */}
             <button
               onClick={handleGenerateSpeech}
-              disabled={isGeneratingSpeech || !ttsText.trim()}
+              disabled={isGeneratingSpeech || !ttsText.trim() || ttsText.length > maxTtsChars}
               className={`
                 w-full py-4 rounded-xl font-bold text-white shadow-xl transition-all duration-200 transform flex items-center justify-center space-x-2 border border-transparent
                 ${!ttsText.trim() || isGeneratingSpeech
@@ -545,6 +1547,31 @@ const App: React.FC = () => {
                 </>
               )}
             </button>
+            {isGeneratingSpeech && (
+              <div className="flex justify-center">
+                <button
+                  onClick={handleCancelSpeech}
+                  className="text-xs text-slate-400 hover:text-white px-3 py-1 rounded-lg border border-slate-700 hover:border-slate-500 hover:bg-slate-800 transition-colors"
+                >
+                  Cancelar
+                </button>
+              </div>
+            )}
+
+            {/* Long-form Progress */}
+            {speechJob && (
+              <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-4 space-y-3">
+                <ChunkProgressBar chunks={speechJob.chunks} label="Fragmentos de audio" />
+                {!isGeneratingSpeech && speechJob.chunks.some(c => c.status === 'error') && (
+                  <button
+                    onClick={handleRetrySpeechChunks}
+                    className="text-xs flex items-center space-x-1 px-3 py-1.5 rounded-lg border border-red-500/20 bg-red-500/10 text-red-300 hover:bg-red-500/20 transition-all"
+                  >
+                    Reintentar fragmentos fallidos
+                  </button>
+                )}
+              </div>
+            )}
 
             {/* Result Area */}
             {generatedAudioUrl && (
@@ -559,7 +1586,7 @@ const App: React.FC = () => {
                 <AudioPlayer 
                   src={generatedAudioUrl} 
                   autoPlay={true}
-                  onDownload={() => handleDownload(generatedAudioUrl, `audio-vozai-${Date.now()}.wav`)} 
+                  onExport={handleExportGeneratedAudio}
                 />
               </div>
             )}
@@ -569,9 +1596,19 @@ const App: React.FC = () => {
               <div className="pt-8 border-t border-slate-800 w-full">
                 <div className="flex items-center justify-between mb-4">
                    <h3 className="text-lg font-semibold text-slate-300">Historial Reciente</h3>
-                   <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
-                     Guardado localmente
-                   </span>
+                   <div className="flex items-center space-x-2">
+                     <span className="text-xs text-slate-500 bg-slate-900 px-2 py-1 rounded border border-slate-800">
+                       {storageUsage
+                         ? `Guardado localmente · ${formatBytes(storageUsage.usage)} de ${formatBytes(storageUsage.quota)}`
+                         : 'Guardado localmente'}
+                     </span>
+                     <button
+                       onClick={handleClearHistory}
+                       className="text-xs text-slate-500 hover:text-red-400 px-2 py-1 rounded hover:bg-slate-800 transition-colors"
+                     >
+                       Borrar todo
+                     </button>
+                   </div>
                 </div>
                 
                 <div className="space-y-3">
@@ -581,8 +1618,14 @@ const App: React.FC = () => {
                         <p className="text-slate-200 text-sm font-medium truncate">{item.text}</p>
                         <div className="flex items-center space-x-2 mt-1.5">
                           <span className="text-[10px] text-slate-400 uppercase tracking-wider font-bold bg-slate-800 px-1.5 py-0.5 rounded">{item.voiceName}</span>
+                          {item.style && describeSpeechStyle(item.style) && (
+                            <span className="text-[10px] text-indigo-300 uppercase tracking-wider font-bold bg-indigo-500/10 px-1.5 py-0.5 rounded">{describeSpeechStyle(item.style)}</span>
+                          )}
                           <span className="text-xs text-slate-600">•</span>
                           <span className="text-xs text-slate-600">{new Date(item.timestamp).toLocaleDateString()} {new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                          {!item.audioUrl && (
+                            <span className="text-[10px] text-amber-400/80 uppercase tracking-wider font-bold">Sin audio</span>
+                          )}
                         </div>
                       </div>
                       <div className="flex space-x-2 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
@@ -596,6 +1639,15 @@ const App: React.FC = () => {
                             <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
                           </svg>
                         </button>
+                         <button 
+                          onClick={() => handleDeleteHistoryItem(item)}
+                          className="p-2 bg-slate-800 text-slate-400 hover:text-white hover:bg-red-600 rounded-lg border border-slate-700 hover:border-red-500 transition-all"
+                          title="Eliminar"
+                        >
+                           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" />
+                          </svg>
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -603,6 +1655,22 @@ const App: React.FC = () => {
               </div>
             )}
           </div>
+        ) : (
+          // HISTORY UI
+          <div className="w-full max-w-3xl animate-fade-in-up space-y-6">
+            <div className="text-center md:text-left">
+              <h1 className="text-3xl font-bold text-white mb-2 tracking-tight">Historial</h1>
+              <p className="text-slate-400">Busca y reabre tus transcripciones y audios generados.</p>
+            </div>
+            <HistoryBrowser
+              transcriptions={transcriptionHistory}
+              ttsItems={history}
+              onOpenTranscription={handleOpenTranscription}
+              onOpenTts={(item) => { setMode(AppMode.TEXT_TO_SPEECH); playHistoryItem(item); }}
+              onDeleteTranscription={handleDeleteTranscription}
+              onDeleteTts={handleDeleteHistoryItem}
+            />
+          </div>
         )}
 
       </main>
@@ -1,19 +1,88 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { formatTime } from '../utils/audioUtils';
+import React, { useRef, useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { AudioRegion } from '../types';
+import { computeWaveformPeaks, decodeAudioToMono, formatTime } from '../utils/audioUtils';
+import { AudioExportFormatInfo, AudioExportOptions, EXPORT_SAMPLE_RATES, getSupportedExportFormats } from '../utils/audioExport';
+import { Waveform } from './Waveform';
 
 interface AudioPlayerProps {
   src: string;
-  onDownload: () => void;
+  onDownload?: () => void; // Downloads the file as-is
+  onExport?: (options: AudioExportOptions) => Promise<void>; // Replaces onDownload with a format picker
   autoPlay?: boolean;
+  onRegionChange?: (region: AudioRegion | null) => void; // Called when a region is selected or cleared
+  onTimeUpdate?: (time: number) => void; // Playback position, a few times per second and on every seek
 }
 
-export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoPlay = false }) => {
+export interface AudioPlayerHandle {
+  /** Moves the playhead to `time` (seconds) and starts playback. */
+  seek: (time: number) => void;
+}
+
+// The overview only needs the envelope, so a low decode rate keeps long files cheap
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_BUCKETS = 2000;
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ src, onDownload, onExport, autoPlay = false, onRegionChange, onTimeUpdate }, ref) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [region, setRegion] = useState<AudioRegion | null>(null);
+  const [loopRegion, setLoopRegion] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportFormats, setExportFormats] = useState<AudioExportFormatInfo[]>([]);
+  const [exportSampleRate, setExportSampleRate] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const canExport = Boolean(onExport);
+  useEffect(() => {
+    if (!canExport) return;
+    getSupportedExportFormats()
+      .then(setExportFormats)
+      .catch(e => console.warn("Could not detect export formats", e));
+  }, [canExport]);
+
+  const updateRegion = (next: AudioRegion | null) => {
+    setRegion(next);
+    onRegionChange?.(next);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    updateRegion(null);
+    fetch(src)
+      .then(response => response.blob())
+      .then(blob => decodeAudioToMono(blob, WAVEFORM_SAMPLE_RATE))
+      .then(samples => {
+        if (!cancelled) setPeaks(computeWaveformPeaks(samples, WAVEFORM_BUCKETS));
+      })
+      .catch(e => console.warn("Could not draw waveform", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  // timeupdate fires only a few times per second, too coarse for the playhead and region loop
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        if (loopRegion && region && audio.currentTime >= region.end) {
+          audio.currentTime = region.start;
+        }
+        setCurrentTime(audio.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, loopRegion, region]);
 
   useEffect(() => {
     if (autoPlay && audioRef.current) {
@@ -26,6 +95,10 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoP
     if (isPlaying) {
       audioRef.current.pause();
     } else {
+      const time = audioRef.current.currentTime;
+      if (loopRegion && region && (time < region.start || time >= region.end)) {
+        audioRef.current.currentTime = region.start;
+      }
       audioRef.current.play();
     }
     setIsPlaying(!isPlaying);
@@ -34,6 +107,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoP
   const handleTimeUpdate = () => {
     if (audioRef.current) {
       setCurrentTime(audioRef.current.currentTime);
+      onTimeUpdate?.(audioRef.current.currentTime);
     }
   };
 
@@ -43,19 +117,47 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoP
     }
   };
 
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const time = parseFloat(e.target.value);
+  const seekTo = (time: number) => {
     if (audioRef.current) {
       audioRef.current.currentTime = time;
       setCurrentTime(time);
+      onTimeUpdate?.(time);
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      seekTo(time);
+      audioRef.current?.play().catch(e => console.log("Playback blocked", e));
+    },
+  }));
+
+  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+    seekTo(parseFloat(e.target.value));
+  };
+
   const handleEnded = () => {
+    // A region that reaches the end of the track loops from here
+    if (loopRegion && region && audioRef.current) {
+      audioRef.current.currentTime = region.start;
+      audioRef.current.play();
+      return;
+    }
     setIsPlaying(false);
     setCurrentTime(0);
   };
 
+  const handleExport = async (info: AudioExportFormatInfo) => {
+    if (!onExport) return;
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      await onExport({ format: info.format, sampleRate: exportSampleRate });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const changePlaybackRate = (rate: number) => {
     if (audioRef.current) {
       audioRef.current.playbackRate = rate;
@@ -99,22 +201,35 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoP
         </div>
 
         {/* Seek Bar */}
-        <div className="flex-1 relative group">
-          <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-gradient-to-r from-blue-400 to-indigo-500 rounded-full"
-              style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
+        {peaks ? (
+          <div className="flex-1 min-w-0">
+            <Waveform
+              peaks={peaks}
+              duration={duration}
+              currentTime={currentTime}
+              region={region}
+              onSeek={seekTo}
+              onRegionChange={updateRegion}
             />
           </div>
-          <input
-            type="range"
-            min={0}
-            max={duration || 0}
-            value={currentTime}
-            onChange={handleSeek}
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          />
-        </div>
+        ) : (
+          <div className="flex-1 relative group">
+            <div className="h-1.5 w-full bg-slate-700 rounded-full overflow-hidden">
+              <div 
+                className="h-full bg-gradient-to-r from-blue-400 to-indigo-500 rounded-full"
+                style={{ width: `${(currentTime / (duration || 1)) * 100}%` }}
+              />
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              value={currentTime}
+              onChange={handleSeek}
+              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </div>
+        )}
 
         {/* Speed Control */}
         <div className="relative">
@@ -141,16 +256,91 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, onDownload, autoP
         </div>
 
         {/* Download Button */}
-        <button 
-          onClick={onDownload}
-          className="flex-shrink-0 flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium transition-colors border border-slate-600"
-          title="Descargar WAV"
-        >
-          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
-            <path fillRule="evenodd" d="M12 2.25a.75.75 0 01.75.75v11.69l3.22-3.22a.75.75 0 111.06 1.06l-4.5 4.5a.75.75 0 01-1.06 0l-4.5-4.5a.75.75 0 111.06-1.06l3.22 3.22V3a.75.75 0 01.75-.75zm-9 13.5a.75.75 0 01.75.75v2.25a1.5 1.5 0 001.5 1.5h13.5a1.5 1.5 0 001.5-1.5V16.5a.75.75 0 011.5 0v2.25a3 3 0 01-3 3H5.25a3 3 0 01-3-3V16.5a.75.75 0 01.75-.75z" clipRule="evenodd" />
-          </svg>
-        </button>
+        {onExport ? (
+          <div className="relative flex-shrink-0">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={isExporting}
+              className="flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium transition-colors border border-slate-600 disabled:opacity-60"
+              title="Descargar"
+            >
+              {isExporting ? (
+                <svg className="animate-spin w-4 h-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+                  <path fillRule="evenodd" d="M12 2.25a.75.75 0 01.75.75v11.69l3.22-3.22a.75.75 0 111.06 1.06l-4.5 4.5a.75.75 0 01-1.06 0l-4.5-4.5a.75.75 0 111.06-1.06l3.22 3.22V3a.75.75 0 01.75-.75zm-9 13.5a.75.75 0 01.75.75v2.25a1.5 1.5 0 001.5 1.5h13.5a1.5 1.5 0 001.5-1.5V16.5a.75.75 0 011.5 0v2.25a3 3 0 01-3 3H5.25a3 3 0 01-3-3V16.5a.75.75 0 01.75-.75z" clipRule="evenodd" />
+                </svg>
+              )}
+            </button>
+
+            {showExportMenu && (
+              <div className="absolute bottom-full mb-2 right-0 bg-slate-700 border border-slate-600 rounded-lg shadow-xl overflow-hidden z-20 flex flex-col min-w-[190px]">
+                {exportFormats.map(info => (
+                  <button
+                    key={info.format}
+                    onClick={() => handleExport(info)}
+                    className="px-3 py-2 text-xs text-left text-slate-200 hover:bg-slate-600"
+                  >
+                    {info.label}
+                  </button>
+                ))}
+                <label className="flex items-center justify-between px-3 py-2 text-xs text-slate-400 border-t border-slate-600">
+                  <span>Frecuencia</span>
+                  <select
+                    value={exportSampleRate ?? ''}
+                    onChange={(e) => setExportSampleRate(e.target.value ? Number(e.target.value) : null)}
+                    className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-slate-200"
+                  >
+                    {EXPORT_SAMPLE_RATES.map(rate => (
+                      <option key={rate ?? 'original'} value={rate ?? ''}>
+                        {rate ? `${(rate / 1000).toFixed(1)} kHz` : 'Original'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            )}
+          </div>
+        ) : onDownload && (
+          <button 
+            onClick={onDownload}
+            className="flex-shrink-0 flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-medium transition-colors border border-slate-600"
+            title="Descargar"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+              <path fillRule="evenodd" d="M12 2.25a.75.75 0 01.75.75v11.69l3.22-3.22a.75.75 0 111.06 1.06l-4.5 4.5a.75.75 0 01-1.06 0l-4.5-4.5a.75.75 0 111.06-1.06l3.22 3.22V3a.75.75 0 01.75-.75zm-9 13.5a.75.75 0 01.75.75v2.25a1.5 1.5 0 001.5 1.5h13.5a1.5 1.5 0 001.5-1.5V16.5a.75.75 0 011.5 0v2.25a3 3 0 01-3 3H5.25a3 3 0 01-3-3V16.5a.75.75 0 01.75-.75z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
       </div>
+
+      {/* Region Controls */}
+      {region && (
+        <div className="flex items-center justify-between mt-3 text-xs text-slate-400">
+          <span className="font-mono">
+            Región {formatTime(region.start)} – {formatTime(region.end)}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setLoopRegion(!loopRegion)}
+              className={`px-2 py-1 rounded-lg border transition-colors ${loopRegion ? 'border-indigo-500/40 bg-indigo-500/10 text-indigo-300' : 'border-slate-600 hover:bg-slate-700 hover:text-white'}`}
+            >
+              Repetir región
+            </button>
+            <button
+              onClick={() => updateRegion(null)}
+              className="px-2 py-1 rounded-lg border border-slate-600 hover:bg-slate-700 hover:text-white transition-colors"
+            >
+              Quitar
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+});
+
+AudioPlayer.displayName = 'AudioPlayer';
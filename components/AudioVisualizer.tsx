@@ -1,25 +1,134 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioVisualizerProps } from '../types';
+import { amplitudeToDb, measureLevels } from '../utils/audioUtils';
 
-interface AudioVisualizerProps {
-  isRecording: boolean;
-}
+type LevelWarning = 'clipping' | 'quiet' | null;
+
+const METER_FLOOR_DB = -60;
+const CLIP_THRESHOLD = 0.99;
+const CLIP_HOLD_MS = 1500; // Keeps the clipping warning up long enough to be read
+const QUIET_THRESHOLD_DB = -50;
+const QUIET_HOLD_MS = 3000; // Pauses in speech are normal; only a sustained silence is suspicious
+const STATE_UPDATE_MS = 100; // The canvas redraws every frame, React state only this often
+
+const WARNING_MESSAGES: Record<Exclude<LevelWarning, null>, string> = {
+  clipping: 'Saturación: baja la ganancia o aléjate del micrófono.',
+  quiet: 'Nivel muy bajo: acércate al micrófono o revisa la entrada seleccionada.',
+};
+
+// Maps a dBFS value to a 0..100 meter position
+const meterPercent = (db: number): number => {
+  if (!isFinite(db)) return 0;
+  return Math.max(0, Math.min(100, (1 - db / METER_FLOOR_DB) * 100));
+};
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isRecording, analyser }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [levels, setLevels] = useState({ peakDb: -Infinity, rmsDb: -Infinity });
+  const [warning, setWarning] = useState<LevelWarning>(null);
+
+  useEffect(() => {
+    if (!isRecording || !analyser) return;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    let lastClipAt = -Infinity;
+    let quietSince: number | null = null;
+    let lastStateUpdate = 0;
+
+    const draw = (now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+      const { peak, rms } = measureLevels(samples);
+      const rmsDb = amplitudeToDb(rms);
+      if (peak >= CLIP_THRESHOLD) lastClipAt = now;
+      if (rmsDb < QUIET_THRESHOLD_DB) quietSince ??= now;
+      else quietSince = null;
+
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      context.clearRect(0, 0, width, height);
+      context.lineWidth = 2 * ratio;
+      context.strokeStyle = now - lastClipAt < CLIP_HOLD_MS ? '#f87171' : '#3b82f6';
+      context.beginPath();
+      for (let i = 0; i < samples.length; i++) {
+        const x = (i / (samples.length - 1)) * width;
+        const y = (1 - samples[i]) * (height / 2);
+        if (i === 0) context.moveTo(x, y);
+        else context.lineTo(x, y);
+      }
+      context.stroke();
+
+      if (now - lastStateUpdate >= STATE_UPDATE_MS) {
+        lastStateUpdate = now;
+        setLevels({ peakDb: amplitudeToDb(peak), rmsDb });
+        setWarning(
+          now - lastClipAt < CLIP_HOLD_MS ? 'clipping'
+            : quietSince !== null && now - quietSince >= QUIET_HOLD_MS ? 'quiet'
+            : null
+        );
+      }
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => {
+      cancelAnimationFrame(frame);
+      setLevels({ peakDb: -Infinity, rmsDb: -Infinity });
+      setWarning(null);
+    };
+  }, [isRecording, analyser]);
 
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isRecording }) => {
   if (!isRecording) return null;
 
+  if (!analyser) {
+    return (
+      <div className="flex items-center justify-center space-x-1 h-12">
+        {[...Array(5)].map((_, i) => (
+          <div
+            key={i}
+            className="w-2 bg-blue-500 rounded-full animate-wave"
+            style={{
+              height: '100%',
+              animationDelay: `${i * 0.1}s`,
+              animationDuration: '1s'
+            }}
+          />
+        ))}
+      </div>
+    );
+  }
+
   return (
-    <div className="flex items-center justify-center space-x-1 h-12">
-      {[...Array(5)].map((_, i) => (
-        <div
-          key={i}
-          className="w-2 bg-blue-500 rounded-full animate-wave"
-          style={{
-            height: '100%',
-            animationDelay: `${i * 0.1}s`,
-            animationDuration: '1s'
-          }}
-        />
-      ))}
+    <div className="w-full space-y-1.5">
+      <canvas ref={canvasRef} className="w-full h-10" />
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div
+            className={`absolute inset-y-0 left-0 rounded-full ${warning === 'clipping' ? 'bg-red-500' : 'bg-emerald-500'}`}
+            style={{ width: `${meterPercent(levels.rmsDb)}%` }}
+          />
+          <div
+            className="absolute inset-y-0 w-0.5 bg-slate-200"
+            style={{ left: `${meterPercent(levels.peakDb)}%` }}
+            title="Pico"
+          />
+        </div>
+        <span className="text-[10px] font-mono text-slate-500 tabular-nums w-14 text-right">
+          {isFinite(levels.peakDb) ? `${Math.round(levels.peakDb)} dB` : '-∞ dB'}
+        </span>
+      </div>
+      <p className={`text-[11px] h-4 text-center ${warning === 'clipping' ? 'text-red-400' : 'text-amber-400'}`}>
+        {warning ? WARNING_MESSAGES[warning] : ''}
+      </p>
     </div>
   );
 };
@@ -0,0 +1,100 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { formatBytes } from '../utils/audioUtils';
+
+interface BatchQueuePanelProps {
+  items: BatchItem[];
+  activeId?: string | null; // Item whose transcript is currently open
+  onOpen: (item: BatchItem) => void;
+  onRetry: (id: string) => void;
+  onDownloadAll: () => void;
+  onClearFinished: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'En cola',
+  processing: 'Procesando',
+  done: 'Listo',
+  error: 'Error',
+};
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-slate-400 bg-slate-700/40 border-slate-600/40',
+  processing: 'text-blue-300 bg-blue-500/10 border-blue-500/20 animate-pulse',
+  done: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+  error: 'text-red-300 bg-red-500/10 border-red-500/20',
+};
+
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+  items,
+  activeId,
+  onOpen,
+  onRetry,
+  onDownloadAll,
+  onClearFinished,
+  onCancel,
+}) => {
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const isBusy = items.some(item => item.status === 'queued' || item.status === 'processing');
+
+  return (
+    <div className="bg-slate-900/50 border border-slate-800 rounded-xl overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 bg-slate-800/50 border-b border-slate-800">
+        <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">
+          Cola de archivos <span className="font-mono tabular-nums text-slate-500 normal-case">{doneCount}/{items.length}</span>
+        </h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onDownloadAll}
+            disabled={doneCount === 0}
+            className="px-2 py-1 text-xs font-semibold text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            title="Descargar todas las transcripciones en .txt y .srt"
+          >
+            Descargar todo (.zip)
+          </button>
+          {isBusy ? (
+            <button onClick={onCancel} className="px-2 py-1 text-xs font-semibold text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors">
+              Cancelar
+            </button>
+          ) : (
+            <button onClick={onClearFinished} className="px-2 py-1 text-xs font-semibold text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors">
+              Limpiar
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="divide-y divide-slate-800 max-h-72 overflow-y-auto">
+        {items.map(item => (
+          <li
+            key={item.id}
+            className={`flex items-center gap-3 px-4 py-2 text-sm ${item.id === activeId ? 'bg-blue-500/10' : ''}`}
+          >
+            <button
+              onClick={() => onOpen(item)}
+              disabled={item.status !== 'done'}
+              className="flex-1 min-w-0 text-left disabled:cursor-default"
+              title={item.status === 'done' ? 'Abrir transcripción' : item.error}
+            >
+              <span className="block truncate text-slate-200">{item.file.name}</span>
+              <span className="block truncate text-xs text-slate-500">
+                {item.status === 'error' && item.error ? item.error : formatBytes(item.file.size)}
+              </span>
+            </button>
+            <span className={`text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded border ${STATUS_STYLES[item.status]}`}>
+              {STATUS_LABELS[item.status]}
+            </span>
+            {item.status === 'error' && (
+              <button
+                onClick={() => onRetry(item.id)}
+                className="text-xs text-slate-400 hover:text-white px-2 py-0.5 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors"
+              >
+                Reintentar
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
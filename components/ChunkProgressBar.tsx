@@ -0,0 +1,36 @@
+import React from 'react';
+import { ChunkProgress, ChunkStatus } from '../types';
+
+interface ChunkProgressBarProps {
+  chunks: ChunkProgress[];
+  label?: string;
+}
+
+const STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-700',
+  processing: 'bg-blue-500 animate-pulse',
+  done: 'bg-emerald-500',
+  error: 'bg-red-500',
+};
+
+export const ChunkProgressBar: React.FC<ChunkProgressBarProps> = ({ chunks, label = 'Fragmentos' }) => {
+  const completed = chunks.filter(c => c.status === 'done').length;
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex justify-between text-xs text-slate-400">
+        <span>{label}</span>
+        <span className="font-mono tabular-nums">{completed}/{chunks.length}</span>
+      </div>
+      <div className="flex w-full gap-0.5 h-2">
+        {chunks.map(chunk => (
+          <div
+            key={chunk.index}
+            className={`flex-1 rounded-sm transition-colors ${STATUS_STYLES[chunk.status]}`}
+            title={chunk.label}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,12 @@
 import React, { useCallback, useState } from 'react';
+import { resolveMediaMimeType } from '../utils/audioUtils';
 
 interface FileUploaderProps {
-  onFileSelected: (file: File) => void;
+  onFilesSelected: (files: File[]) => void; // Several files when the user picks or drops more than one
   disabled?: boolean;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled }) => {
+export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesSelected, disabled }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -24,20 +25,22 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disa
     if (disabled) return;
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-      if (file.type.startsWith('audio/') || file.type.startsWith('video/')) {
-        onFileSelected(file);
-      } else {
+      const files = Array.from(e.dataTransfer.files);
+      const mediaFiles = files.filter(file => resolveMediaMimeType(file));
+      if (mediaFiles.length < files.length) {
         alert('Por favor sube solo archivos de audio o video.');
       }
+      if (mediaFiles.length > 0) onFilesSelected(mediaFiles);
     }
-  }, [onFileSelected, disabled]);
+  }, [onFilesSelected, disabled]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileSelected(e.target.files[0]);
+      onFilesSelected(Array.from(e.target.files));
+      // Clear the input so picking the same files again still fires onChange
+      e.target.value = '';
     }
-  }, [onFileSelected]);
+  }, [onFilesSelected]);
 
   return (
     <div
@@ -55,7 +58,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disa
     >
       <input
         type="file"
-        accept="audio/*,video/*"
+        multiple
+        accept="audio/*,video/*,.mkv,.opus,.m4a"
         onChange={handleFileInput}
         disabled={disabled}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -68,10 +72,10 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disa
       </div>
 
       <h3 className="text-lg font-medium text-slate-200 mb-1">
-        {isDragging ? 'Suelta el archivo aquí' : 'Sube un archivo de audio'}
+        {isDragging ? 'Suelta los archivos aquí' : 'Sube archivos de audio'}
       </h3>
       <p className="text-sm text-slate-500 max-w-xs mx-auto">
-        Arrastra y suelta o haz clic para seleccionar (MP3, WAV, M4A)
+        Arrastra y suelta o haz clic para seleccionar uno o varios (MP3, WAV, M4A o video)
       </p>
     </div>
   );
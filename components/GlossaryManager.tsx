@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { Glossary, GlossaryTerm } from '../types';
+import { GlossaryFileFormat, parseGlossaryFile } from '../utils/glossaryUtils';
+
+interface GlossaryManagerProps {
+  glossaries: Glossary[];
+  selectedId: string | null; // Glossary used for new transcriptions
+  onSelect: (id: string | null) => void;
+  onSave: (glossary: Glossary) => void; // Adds a new glossary or replaces the one with the same id
+  onDelete: (id: string) => void;
+  onExport: (glossary: Glossary, format: GlossaryFileFormat) => void;
+}
+
+const INPUT_CLASS = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500';
+const BUTTON_CLASS = 'text-xs text-slate-400 hover:text-white px-2 py-1.5 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors';
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossaries, selectedId, onSelect, onSave, onDelete, onExport }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = glossaries.find(g => g.id === selectedId);
+
+  const addGlossary = (glossary: Omit<Glossary, 'id'>) => {
+    const id = Date.now().toString();
+    onSave({ ...glossary, id });
+    onSelect(id);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt("Nombre del glosario:")?.trim();
+    if (name) addGlossary({ name, context: '', terms: [] });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      addGlossary(parseGlossaryFile(await file.text(), file.name));
+    } catch (err) {
+      console.error("Glossary import failed", err);
+      setImportError("No se pudo importar el archivo. Usa un JSON exportado desde aquí o un CSV con las columnas término y fonética.");
+    }
+  };
+
+  const updateTerm = (index: number, changes: Partial<GlossaryTerm>) => {
+    if (!selected) return;
+    onSave({ ...selected, terms: selected.terms.map((t, i) => (i === index ? { ...t, ...changes } : t)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-500"
+        >
+          <option value="">Sin glosario</option>
+          {glossaries.map(g => (
+            <option key={g.id} value={g.id}>{g.name}</option>
+          ))}
+        </select>
+        <button onClick={handleCreate} className={BUTTON_CLASS}>Nuevo</button>
+        <button onClick={() => fileInputRef.current?.click()} className={BUTTON_CLASS}>Importar</button>
+        <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+        {selected && (
+          <>
+            <button onClick={() => onExport(selected, 'json')} className={BUTTON_CLASS} title="Exportar con nombre y contexto">JSON</button>
+            <button onClick={() => onExport(selected, 'csv')} className={BUTTON_CLASS} title="Exportar solo los términos">CSV</button>
+            <button
+              onClick={() => {
+                if (window.confirm(`¿Eliminar el glosario «${selected.name}»?`)) onDelete(selected.id);
+              }}
+              className="text-xs text-slate-400 hover:text-red-300 px-2 py-1.5 rounded-lg border border-slate-700 hover:border-red-500/40 transition-colors"
+            >
+              Eliminar
+            </button>
+          </>
+        )}
+      </div>
+
+      {importError && <p className="text-xs text-red-300">{importError}</p>}
+
+      {selected && (
+        <div className="space-y-3">
+          <input
+            value={selected.name}
+            onChange={(e) => onSave({ ...selected, name: e.target.value })}
+            placeholder="Nombre"
+            className={`${INPUT_CLASS} w-full`}
+          />
+          <textarea
+            value={selected.context}
+            onChange={(e) => onSave({ ...selected, context: e.target.value })}
+            rows={2}
+            placeholder="Contexto: de qué trata el audio (ej.: consulta de cardiología, reunión del equipo de producto)"
+            className={`${INPUT_CLASS} w-full resize-none`}
+          />
+          <ul className="space-y-2">
+            {selected.terms.map((term, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <input
+                  value={term.term}
+                  onChange={(e) => updateTerm(i, { term: e.target.value })}
+                  placeholder="Término"
+                  className={`${INPUT_CLASS} flex-1 min-w-0`}
+                />
+                <input
+                  value={term.phonetic ?? ''}
+                  onChange={(e) => updateTerm(i, { phonetic: e.target.value || undefined })}
+                  placeholder="Cómo suena (opcional)"
+                  className={`${INPUT_CLASS} flex-1 min-w-0`}
+                />
+                <button
+                  onClick={() => onSave({ ...selected, terms: selected.terms.filter((_, j) => j !== i) })}
+                  className="p-1.5 text-slate-500 hover:text-red-300 transition-colors"
+                  title="Quitar término"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                    <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button onClick={() => onSave({ ...selected, terms: [...selected.terms, { term: '' }] })} className={BUTTON_CLASS}>
+            Añadir término
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import React from 'react';
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  statusLabel?: string;
+}
+
+export const Header: React.FC<HeaderProps> = ({ statusLabel = 'System Ready' }) => {
   return (
     <header className="border-b border-slate-800 bg-slate-950/90 backdrop-blur-xl sticky top-0 z-50 transition-all duration-300">
       <div className="max-w-5xl mx-auto px-4 sm:px-6 h-16 flex items-center justify-between">
@@ -25,7 +29,7 @@ export const Header: React.FC = () => {
                   <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
                   <span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
                 </span>
-                <span className="text-xs font-medium text-slate-400">System Ready</span>
+                <span className="text-xs font-medium text-slate-400">{statusLabel}</span>
              </div>
         </div>
       </div>
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem, TranscriptionHistoryItem } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { buildSnippet, HistoryDateFilter, HistoryEntry, HistoryKindFilter, searchHistory } from '../utils/historySearch';
+
+interface HistoryBrowserProps {
+  transcriptions: TranscriptionHistoryItem[];
+  ttsItems: HistoryItem[];
+  onOpenTranscription: (item: TranscriptionHistoryItem) => void;
+  onOpenTts: (item: HistoryItem) => void;
+  onDeleteTranscription: (item: TranscriptionHistoryItem) => void;
+  onDeleteTts: (item: HistoryItem) => void;
+}
+
+const KIND_OPTIONS: { value: HistoryKindFilter; label: string }[] = [
+  { value: 'all', label: 'Todo' },
+  { value: 'transcription', label: 'Transcripciones' },
+  { value: 'tts', label: 'Texto a voz' },
+];
+
+const DATE_OPTIONS: { value: HistoryDateFilter; label: string }[] = [
+  { value: 'all', label: 'Cualquier fecha' },
+  { value: 'today', label: 'Hoy' },
+  { value: 'week', label: 'Últimos 7 días' },
+  { value: 'month', label: 'Últimos 30 días' },
+];
+
+const selectClassName = "bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-xl px-3 py-2.5 focus:outline-none focus:border-blue-500 cursor-pointer";
+
+export const HistoryBrowser: React.FC<HistoryBrowserProps> = ({
+  transcriptions,
+  ttsItems,
+  onOpenTranscription,
+  onOpenTts,
+  onDeleteTranscription,
+  onDeleteTts,
+}) => {
+  const [text, setText] = useState('');
+  const [kind, setKind] = useState<HistoryKindFilter>('all');
+  const [date, setDate] = useState<HistoryDateFilter>('all');
+
+  const results = useMemo(
+    () => searchHistory(transcriptions, ttsItems, { text, kind, date }),
+    [transcriptions, ttsItems, text, kind, date]
+  );
+
+  const handleOpen = (entry: HistoryEntry) => {
+    if (entry.kind === 'transcription') onOpenTranscription(entry.item);
+    else onOpenTts(entry.item);
+  };
+
+  const handleDelete = (entry: HistoryEntry) => {
+    if (entry.kind === 'transcription') onDeleteTranscription(entry.item);
+    else onDeleteTts(entry.item);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="search"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Buscar en transcripciones y audios generados..."
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500/50 placeholder:text-slate-600"
+        />
+        <select value={kind} onChange={(e) => setKind(e.target.value as HistoryKindFilter)} className={selectClassName}>
+          {KIND_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <select value={date} onChange={(e) => setDate(e.target.value as HistoryDateFilter)} className={selectClassName}>
+          {DATE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="text-center text-slate-500 text-sm py-12">No hay resultados.</p>
+      ) : (
+        <ul className="space-y-3">
+          {results.map(entry => (
+            <li key={`${entry.kind}-${entry.item.id}`} className="bg-slate-900 border border-slate-800 rounded-xl p-4 hover:border-slate-600 transition-colors flex justify-between items-start group">
+              <div className="flex-1 min-w-0 mr-4 cursor-pointer" onClick={() => handleOpen(entry)}>
+                <div className="flex items-center space-x-2 mb-1.5">
+                  <span className={`text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded ${entry.kind === 'transcription' ? 'bg-blue-500/10 text-blue-300' : 'bg-indigo-500/10 text-indigo-300'}`}>
+                    {entry.kind === 'transcription' ? 'Transcripción' : 'Texto a voz'}
+                  </span>
+                  <span className="text-xs text-slate-400 truncate">
+                    {entry.kind === 'transcription'
+                      ? (entry.item.source === 'microphone' ? 'Micrófono' : entry.item.source)
+                      : entry.item.voiceName}
+                  </span>
+                  {entry.kind === 'transcription' && entry.item.duration !== undefined && (
+                    <span className="text-xs text-slate-600 font-mono">{formatTime(entry.item.duration)}</span>
+                  )}
+                </div>
+                <p className="text-slate-200 text-sm line-clamp-2">{buildSnippet(entry.item.text, text)}</p>
+                <span className="text-xs text-slate-600">
+                  {new Date(entry.item.timestamp).toLocaleDateString()} {new Date(entry.item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              <button
+                onClick={() => handleDelete(entry)}
+                className="p-2 bg-slate-800 text-slate-400 hover:text-white hover:bg-red-600 rounded-lg border border-slate-700 hover:border-red-500 transition-all opacity-100 sm:opacity-0 group-hover:opacity-100"
+                title="Eliminar"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
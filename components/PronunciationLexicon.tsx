@@ -0,0 +1,58 @@
+import React from 'react';
+import { PronunciationEntry } from '../types';
+
+interface PronunciationLexiconProps {
+  entries: PronunciationEntry[];
+  onChange: (entries: PronunciationEntry[]) => void;
+}
+
+const INPUT_CLASS = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500';
+
+export const PronunciationLexicon: React.FC<PronunciationLexiconProps> = ({ entries, onChange }) => {
+  const updateEntry = (index: number, changes: Partial<PronunciationEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Cada palabra se sustituye por cómo debe sonar antes de generar el audio, en todo el texto.
+      </p>
+      {entries.length > 0 && (
+        <ul className="space-y-2">
+          {entries.map((entry, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <input
+                value={entry.word}
+                onChange={(e) => updateEntry(i, { word: e.target.value })}
+                placeholder="Palabra (ej.: GIF)"
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+              />
+              <input
+                value={entry.say}
+                onChange={(e) => updateEntry(i, { say: e.target.value })}
+                placeholder="Se pronuncia (ej.: guif)"
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+              />
+              <button
+                onClick={() => onChange(entries.filter((_, j) => j !== i))}
+                className="p-1.5 text-slate-500 hover:text-red-300 transition-colors"
+                title="Quitar palabra"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button
+        onClick={() => onChange([...entries, { word: '', say: '' }])}
+        className="text-xs text-slate-400 hover:text-white px-2 py-1.5 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors"
+      >
+        Añadir palabra
+      </button>
+    </div>
+  );
+};
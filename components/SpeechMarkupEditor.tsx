@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import { MarkupError } from '../utils/speechMarkup';
+
+interface SpeechMarkupEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: MarkupError[]; // From parseSpeechMarkup(value); highlighted in the text
+  maxLength: number;
+  placeholder?: string;
+}
+
+// Shared by the textarea and the highlight layer behind it, so both wrap lines identically
+const TEXT_LAYOUT_CLASS = 'p-5 text-base leading-relaxed border rounded-xl';
+const BUTTON_CLASS = 'text-xs text-slate-400 hover:text-white px-2 py-1 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors';
+
+// Overlapping errors (a tag inside an unclosed emphasis) become one highlighted range
+const mergeRanges = (errors: MarkupError[]): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  [...errors].sort((a, b) => a.start - b.start).forEach(({ start, end }) => {
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end) last.end = Math.max(last.end, end);
+    else ranges.push({ start, end: Math.max(end, start + 1) });
+  });
+  return ranges;
+};
+
+const lineOf = (text: string, offset: number): number => text.slice(0, offset).split('\n').length;
+
+export const SpeechMarkupEditor: React.FC<SpeechMarkupEditorProps> = ({ value, onChange, errors, maxLength, placeholder }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const select = (start: number, end: number) => {
+    // Runs after React has applied the new value, which would otherwise reset the selection
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start, end);
+    });
+  };
+
+  const wrapSelection = (before: string, after: string, fallback: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const selected = value.slice(selectionStart, selectionEnd) || fallback;
+    const next = value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd);
+    if (next.length > maxLength) return;
+    onChange(next);
+    select(selectionStart + before.length, selectionStart + before.length + selected.length);
+  };
+
+  const insertPause = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const tag = '[pause 800ms]';
+    const { selectionEnd } = textarea;
+    const next = value.slice(0, selectionEnd) + tag + value.slice(selectionEnd);
+    if (next.length > maxLength) return;
+    onChange(next);
+    select(selectionEnd + tag.length, selectionEnd + tag.length);
+  };
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+  };
+
+  const highlighted: React.ReactNode[] = [];
+  let cursor = 0;
+  mergeRanges(errors).forEach(({ start, end }, i) => {
+    highlighted.push(value.slice(cursor, start));
+    highlighted.push(
+      <mark key={i} className="bg-red-500/25 text-transparent rounded-sm underline decoration-wavy decoration-red-400">
+        {value.slice(start, end) || ' '}
+      </mark>
+    );
+    cursor = end;
+  });
+  // The trailing space keeps a final empty line as tall as in the textarea
+  highlighted.push(value.slice(cursor) + ' ');
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onMouseDown={(e) => e.preventDefault()} onClick={insertPause} className={BUTTON_CLASS} title="Silencio exacto en ese punto">
+          Pausa
+        </button>
+        <button onMouseDown={(e) => e.preventDefault()} onClick={() => wrapSelection('*', '*', 'texto')} className={BUTTON_CLASS} title="Acentúa las palabras seleccionadas">
+          Énfasis
+        </button>
+        <button onMouseDown={(e) => e.preventDefault()} onClick={() => wrapSelection('[spell]', '[/spell]', 'ONU')} className={BUTTON_CLASS} title="Lee las palabras seleccionadas letra por letra">
+          Deletrear
+        </button>
+        <span className="text-xs text-slate-500">
+          [pause 800ms] · *énfasis* · [spell]ONU[/spell] · \* para un asterisco
+        </span>
+      </div>
+
+      <div className="relative">
+        <div
+          ref={backdropRef}
+          aria-hidden="true"
+          className={`${TEXT_LAYOUT_CLASS} absolute inset-0 overflow-hidden bg-slate-900 border-transparent whitespace-pre-wrap break-words text-transparent`}
+        >
+          {highlighted}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          maxLength={maxLength}
+          placeholder={placeholder}
+          className={`${TEXT_LAYOUT_CLASS} relative block w-full h-48 bg-transparent text-slate-200 focus:outline-none resize-none transition-shadow placeholder:text-slate-600 ${
+            errors.length > 0 ? 'border-red-500/50' : 'border-slate-700 focus:border-blue-500/50'
+          }`}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 px-1">
+          {errors.map((error, i) => (
+            <li key={i}>
+              <button onClick={() => select(error.start, error.end)} className="text-xs text-left text-red-300 hover:text-red-200">
+                Línea {lineOf(value, error.start)}: {error.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { SpeechEmphasis, SpeechPace, SpeechStyle, SpeechStylePreset, SpeechTone } from '../types';
+import { DEFAULT_SPEECH_STYLE, SPEECH_EMPHASIS_LABELS, SPEECH_PACE_LABELS, SPEECH_TONE_LABELS } from '../utils/speechStyle';
+
+interface SpeechStylePanelProps {
+  style: SpeechStyle;
+  onChange: (style: SpeechStyle) => void;
+  presets: SpeechStylePreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+}
+
+const SELECT_CLASS = 'w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-500';
+
+const isSameStyle = (a: SpeechStyle, b: SpeechStyle) =>
+  a.pace === b.pace && a.tone === b.tone && a.emphasis === b.emphasis && a.notes.trim() === b.notes.trim();
+
+export const SpeechStylePanel: React.FC<SpeechStylePanelProps> = ({ style, onChange, presets, onSavePreset, onDeletePreset }) => {
+  const activePreset = presets.find(preset => isSameStyle(preset.style, style));
+
+  const handleSave = () => {
+    const name = window.prompt("Nombre del preajuste:", activePreset?.name ?? '')?.trim();
+    if (name) onSavePreset(name);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activePreset?.id ?? ''}
+          onChange={(e) => {
+            const preset = presets.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.style);
+          }}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-500"
+        >
+          <option value="" disabled>{presets.length > 0 ? 'Personalizado' : 'Sin preajustes guardados'}</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button onClick={handleSave} className="text-xs text-slate-400 hover:text-white px-2 py-1.5 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors">
+          Guardar preajuste
+        </button>
+        {activePreset && (
+          <button
+            onClick={() => onDeletePreset(activePreset.id)}
+            className="text-xs text-slate-400 hover:text-red-300 px-2 py-1.5 rounded-lg border border-slate-700 hover:border-red-500/40 transition-colors"
+          >
+            Eliminar
+          </button>
+        )}
+        <button
+          onClick={() => onChange(DEFAULT_SPEECH_STYLE)}
+          disabled={isSameStyle(style, DEFAULT_SPEECH_STYLE)}
+          className="text-xs text-slate-500 hover:text-slate-300 disabled:opacity-40 px-2 py-1.5 transition-colors"
+        >
+          Restablecer
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Ritmo</span>
+          <select value={style.pace} onChange={(e) => onChange({ ...style, pace: e.target.value as SpeechPace })} className={SELECT_CLASS}>
+            {(Object.keys(SPEECH_PACE_LABELS) as SpeechPace[]).map(pace => (
+              <option key={pace} value={pace}>{SPEECH_PACE_LABELS[pace]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Tono</span>
+          <select value={style.tone} onChange={(e) => onChange({ ...style, tone: e.target.value as SpeechTone })} className={SELECT_CLASS}>
+            {(Object.keys(SPEECH_TONE_LABELS) as SpeechTone[]).map(tone => (
+              <option key={tone} value={tone}>{SPEECH_TONE_LABELS[tone]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-slate-400">
+          <span>Énfasis</span>
+          <select value={style.emphasis} onChange={(e) => onChange({ ...style, emphasis: e.target.value as SpeechEmphasis })} className={SELECT_CLASS}>
+            {(Object.keys(SPEECH_EMPHASIS_LABELS) as SpeechEmphasis[]).map(emphasis => (
+              <option key={emphasis} value={emphasis}>{SPEECH_EMPHASIS_LABELS[emphasis]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="block space-y-1 text-xs text-slate-400">
+        <span>Notas de dirección</span>
+        <textarea
+          value={style.notes}
+          onChange={(e) => onChange({ ...style, notes: e.target.value })}
+          rows={2}
+          placeholder="Ej.: como un locutor de radio nocturna, con una sonrisa en la voz"
+          className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500 resize-none"
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { countMatches, mergeWithNext, renameSpeaker, replaceInSegments, splitSegment, updateSegmentText } from '../utils/transcriptEditing';
+import { SPEAKER_COLORS } from './TranscriptView';
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  onChange: (segments: TranscriptSegment[]) => void; // Each call is one undoable edit
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSeek?: (time: number) => void;
+}
+
+const INPUT_CLASS = 'bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500';
+const TOOL_BUTTON_CLASS = 'text-xs text-slate-400 hover:text-white px-2 py-1 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ segments, onChange, onUndo, onRedo, canUndo, canRedo, onSeek }) => {
+  const [query, setQuery] = useState<string>('');
+  const [replacement, setReplacement] = useState<string>('');
+  const [matchCase, setMatchCase] = useState<boolean>(false);
+  const textareasRef = useRef<(HTMLTextAreaElement | null)[]>([]);
+
+  const speakers = Array.from(new Set(segments.map(s => s.speaker)));
+  const matches = countMatches(segments, query, { matchCase });
+
+  const handleRename = (speaker: string) => {
+    const name = window.prompt(`Nuevo nombre para «${speaker}»:`, speaker)?.trim();
+    if (name && name !== speaker) onChange(renameSpeaker(segments, speaker, name));
+  };
+
+  const handleTextBlur = (index: number, text: string) => {
+    const next = updateSegmentText(segments, index, text);
+    if (next !== segments) onChange(next);
+  };
+
+  const handleSplit = (index: number) => {
+    const textarea = textareasRef.current[index];
+    if (!textarea) return;
+    const next = splitSegment(segments, index, textarea.selectionStart, textarea.value);
+    if (next !== segments) onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 pb-4 border-b border-slate-800">
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className={TOOL_BUTTON_CLASS}>Deshacer</button>
+          <button onClick={onRedo} disabled={!canRedo} className={TOOL_BUTTON_CLASS}>Rehacer</button>
+          <span className="text-xs text-slate-500 ml-2">Hablantes:</span>
+          {speakers.map((speaker, i) => (
+            <button
+              key={speaker}
+              onClick={() => handleRename(speaker)}
+              className={`text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded border hover:brightness-125 ${SPEAKER_COLORS[i % SPEAKER_COLORS.length]}`}
+              title="Renombrar en toda la transcripción"
+            >
+              {speaker}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Buscar" className={`${INPUT_CLASS} w-36`} />
+          <input value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Reemplazar por" className={`${INPUT_CLASS} w-36`} />
+          <label className="flex items-center gap-1 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={matchCase}
+              onChange={(e) => setMatchCase(e.target.checked)}
+              className="w-3.5 h-3.5 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20"
+            />
+            Aa
+          </label>
+          {query && <span className="text-xs text-slate-500 font-mono tabular-nums">{matches} coincidencias</span>}
+          <button
+            onClick={() => onChange(replaceInSegments(segments, query, replacement, { matchCase }))}
+            disabled={matches === 0}
+            className={TOOL_BUTTON_CLASS}
+          >
+            Reemplazar todo
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-3">
+        {segments.map((segment, index) => (
+          // Keyed by content so undo, redo and replace refresh the uncontrolled textareas
+          <li key={`${index}-${segment.start}-${segment.speaker}-${segment.text}`} className="flex items-start space-x-4 group">
+            <button
+              type="button"
+              onClick={() => onSeek?.(segment.start)}
+              disabled={!onSeek}
+              className={`text-xs font-mono tabular-nums pt-2 w-12 flex-shrink-0 text-left text-slate-500 ${onSeek ? 'hover:text-white cursor-pointer' : 'cursor-default'}`}
+            >
+              {formatTime(segment.start)}
+            </button>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`inline-block text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded border ${SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]}`}>
+                  {segment.speaker}
+                </span>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                  <button
+                    // Keeps the caret in the textarea so the split happens where it is
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => handleSplit(index)}
+                    className="text-[11px] text-slate-500 hover:text-white px-1.5 py-0.5 rounded"
+                    title="Dividir el segmento en la posición del cursor"
+                  >
+                    Dividir
+                  </button>
+                  {index < segments.length - 1 && (
+                    <button
+                      onClick={() => onChange(mergeWithNext(segments, index))}
+                      className="text-[11px] text-slate-500 hover:text-white px-1.5 py-0.5 rounded"
+                      title="Unir con el segmento siguiente"
+                    >
+                      Unir con el siguiente
+                    </button>
+                  )}
+                </div>
+              </div>
+              <textarea
+                ref={el => { textareasRef.current[index] = el; }}
+                defaultValue={segment.text}
+                onBlur={(e) => handleTextBlur(index, e.target.value)}
+                rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                className="w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-blue-500 rounded-lg px-2 py-1 -mx-2 text-slate-200 leading-relaxed resize-none focus:outline-none"
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
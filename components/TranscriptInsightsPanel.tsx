@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { TranscriptAction, TranscriptInsights } from '../types';
+import { TTS_LANGUAGES } from '../services/voiceCatalog';
+import { formatTime } from '../utils/audioUtils';
+
+interface TranscriptInsightsPanelProps {
+  insights?: TranscriptInsights;
+  runningAction: TranscriptAction | null;
+  error?: string | null;
+  defaultLanguage: string; // Translation target until the user picks one
+  onRun: (action: TranscriptAction, targetLanguage?: string) => void;
+  onCancel: () => void;
+  onSeek?: (time: number) => void; // Makes chapter times clickable
+}
+
+const TABS: { action: TranscriptAction; label: string }[] = [
+  { action: 'summary', label: 'Resumen' },
+  { action: 'actionItems', label: 'Tareas' },
+  { action: 'chapters', label: 'Capítulos' },
+  { action: 'keywords', label: 'Palabras clave' },
+  { action: 'translation', label: 'Traducción' },
+];
+
+const hasResult = (insights: TranscriptInsights | undefined, action: TranscriptAction): boolean => {
+  return insights?.[action] !== undefined;
+};
+
+export const TranscriptInsightsPanel: React.FC<TranscriptInsightsPanelProps> = ({
+  insights,
+  runningAction,
+  error,
+  defaultLanguage,
+  onRun,
+  onCancel,
+  onSeek,
+}) => {
+  const [activeTab, setActiveTab] = useState<TranscriptAction>('summary');
+  const [targetLanguage, setTargetLanguage] = useState<string>(insights?.translation?.language ?? defaultLanguage);
+  const isRunning = runningAction === activeTab;
+
+  const renderResult = () => {
+    switch (activeTab) {
+      case 'summary':
+        return <p className="whitespace-pre-line leading-relaxed text-slate-200">{insights?.summary}</p>;
+      case 'actionItems':
+        return insights?.actionItems?.length ? (
+          <ul className="space-y-2">
+            {insights.actionItems.map((item, i) => (
+              <li key={i} className="flex items-start gap-2 text-slate-200">
+                <span className="mt-2 w-1.5 h-1.5 rounded-full bg-blue-400 flex-shrink-0" />
+                <span className="flex-1">{item.task}</span>
+                {item.owner && (
+                  <span className="text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded border text-emerald-300 bg-emerald-500/10 border-emerald-500/20">
+                    {item.owner}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500 italic">No se encontraron tareas en la transcripción.</p>
+        );
+      case 'chapters':
+        return (
+          <ol className="space-y-2">
+            {insights?.chapters?.map((chapter, i) => (
+              <li key={i} className="flex items-start gap-3">
+                <button
+                  type="button"
+                  onClick={() => onSeek?.(chapter.start)}
+                  disabled={!onSeek}
+                  className={`text-xs font-mono tabular-nums pt-0.5 w-12 flex-shrink-0 text-left text-slate-500 ${onSeek ? 'hover:text-white cursor-pointer' : 'cursor-default'}`}
+                >
+                  {formatTime(chapter.start)}
+                </button>
+                <span className="text-slate-200">{chapter.title}</span>
+              </li>
+            ))}
+          </ol>
+        );
+      case 'keywords':
+        return (
+          <div className="flex flex-wrap gap-2">
+            {insights?.keywords?.map(keyword => (
+              <span key={keyword} className="text-xs text-slate-300 bg-slate-800 border border-slate-700 rounded-full px-2.5 py-1">
+                {keyword}
+              </span>
+            ))}
+          </div>
+        );
+      case 'translation':
+        return <p className="whitespace-pre-line leading-relaxed text-slate-200">{insights?.translation?.text}</p>;
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-800">
+      <div className="flex overflow-x-auto border-b border-slate-800 px-4">
+        {TABS.map(tab => (
+          <button
+            key={tab.action}
+            onClick={() => setActiveTab(tab.action)}
+            className={`flex items-center gap-1.5 whitespace-nowrap px-3 py-2.5 text-xs font-semibold border-b-2 -mb-px transition-colors ${activeTab === tab.action ? 'border-blue-500 text-white' : 'border-transparent text-slate-400 hover:text-slate-200'}`}
+          >
+            {tab.label}
+            {hasResult(insights, tab.action) && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400" title="Generado" />}
+            {runningAction === tab.action && <span className="w-1.5 h-1.5 rounded-full bg-blue-400 animate-pulse" />}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-6 bg-slate-900/50 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {activeTab === 'translation' && (
+            <select
+              value={targetLanguage}
+              onChange={(e) => setTargetLanguage(e.target.value)}
+              disabled={isRunning}
+              className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-blue-500"
+            >
+              {TTS_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.label}</option>
+              ))}
+            </select>
+          )}
+          {isRunning ? (
+            <button onClick={onCancel} className="flex items-center gap-2 text-xs text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 hover:border-slate-500 transition-colors">
+              <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              Cancelar
+            </button>
+          ) : (
+            <button
+              onClick={() => onRun(activeTab, activeTab === 'translation' ? targetLanguage : undefined)}
+              disabled={runningAction !== null}
+              className="text-xs px-3 py-1.5 rounded-lg border border-indigo-500/20 bg-indigo-500/10 text-indigo-300 hover:bg-indigo-500/20 hover:border-indigo-500/30 disabled:opacity-40 disabled:pointer-events-none transition-all"
+            >
+              {activeTab === 'translation' ? 'Traducir' : hasResult(insights, activeTab) ? 'Regenerar' : 'Generar'}
+            </button>
+          )}
+          {activeTab === 'translation' && insights?.translation && (
+            <span className="text-xs text-slate-500">Traducción actual: {insights.translation.language}</span>
+          )}
+        </div>
+
+        {error && runningAction === null && <p className="text-sm text-red-300">{error}</p>}
+        {hasResult(insights, activeTab) && renderResult()}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { TranscriptOutputOptions, TranscriptStyle } from '../types';
+import { MAX_SPEAKER_COUNT, TRANSCRIPT_STYLE_LABELS } from '../utils/transcriptOutput';
+
+interface TranscriptOutputPanelProps {
+  options: TranscriptOutputOptions;
+  onChange: (options: TranscriptOutputOptions) => void;
+  disabled?: boolean; // Set while a transcription is running, since it already has its options
+}
+
+const CHECKBOX_CLASS = 'w-4 h-4 rounded border-slate-600 bg-slate-800 text-blue-500 focus:ring-blue-500/20';
+
+const STYLE_TITLES: Record<TranscriptStyle, string> = {
+  clean: 'Sin muletillas, falsos comienzos ni repeticiones',
+  verbatim: 'Exactamente lo que se dijo, con muletillas y repeticiones',
+};
+
+export const TranscriptOutputPanel: React.FC<TranscriptOutputPanelProps> = ({ options, onChange, disabled }) => {
+  const update = (changes: Partial<TranscriptOutputOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-5 gap-y-3 text-sm text-slate-400">
+      <div className="flex bg-slate-900/80 p-1 rounded-lg border border-slate-800" title="Estilo del texto">
+        {(Object.keys(TRANSCRIPT_STYLE_LABELS) as TranscriptStyle[]).map(style => (
+          <button
+            key={style}
+            onClick={() => update({ style })}
+            disabled={disabled}
+            title={STYLE_TITLES[style]}
+            className={`px-3 py-1 rounded-md text-xs font-semibold transition-all disabled:cursor-not-allowed ${
+              options.style === style ? 'bg-slate-800 text-white ring-1 ring-white/10' : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {TRANSCRIPT_STYLE_LABELS[style]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.diarize}
+            onChange={(e) => update({ diarize: e.target.checked })}
+            disabled={disabled}
+            className={CHECKBOX_CLASS}
+          />
+          <span>Identificar hablantes</span>
+        </label>
+        <select
+          value={options.speakerCount ?? ''}
+          onChange={(e) => update({ speakerCount: e.target.value ? Number(e.target.value) : undefined })}
+          disabled={disabled || !options.diarize}
+          title="Número de hablantes esperado"
+          className="bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500 disabled:opacity-40"
+        >
+          <option value="">Automático</option>
+          {Array.from({ length: MAX_SPEAKER_COUNT }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count === 1 ? '1 hablante' : `${count} hablantes`}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center space-x-2 cursor-pointer" title="Marca sonidos como [laughter] o [music] en el texto">
+        <input
+          type="checkbox"
+          checked={options.eventTags}
+          onChange={(e) => update({ eventTags: e.target.checked })}
+          disabled={disabled}
+          className={CHECKBOX_CLASS}
+        />
+        <span>Etiquetar sonidos</span>
+      </label>
+
+      <label className="flex items-center space-x-2 cursor-pointer" title="Las groserías más comunes se ocultan siempre; el resto depende del modelo">
+        <input
+          type="checkbox"
+          checked={options.maskProfanity}
+          onChange={(e) => update({ maskProfanity: e.target.checked })}
+          disabled={disabled}
+          className={CHECKBOX_CLASS}
+        />
+        <span>Ocultar groserías</span>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTime } from '../utils/audioUtils';
+import { estimateWordTimes, findActiveSegmentIndex } from '../utils/transcriptUtils';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  tentativeSegments?: TranscriptSegment[]; // Live text that may still be revised
+  emptyMessage?: string;
+  activeTime?: number; // Playback position of the source audio; highlights the segment being spoken
+  onSeek?: (time: number) => void; // Makes segments and words clickable
+}
+
+// Badge colors are assigned by order of appearance so each speaker keeps the same color
+export const SPEAKER_COLORS = [
+  'text-blue-300 bg-blue-500/10 border-blue-500/20',
+  'text-emerald-300 bg-emerald-500/10 border-emerald-500/20',
+  'text-amber-300 bg-amber-500/10 border-amber-500/20',
+  'text-fuchsia-300 bg-fuchsia-500/10 border-fuchsia-500/20',
+];
+
+export const TranscriptView: React.FC<TranscriptViewProps> = ({
+  segments,
+  tentativeSegments = [],
+  emptyMessage = 'No se detectó habla en el audio.',
+  activeTime,
+  onSeek,
+}) => {
+  const activeItemRef = useRef<HTMLLIElement>(null);
+  const activeIndex = activeTime === undefined ? -1 : findActiveSegmentIndex(segments, activeTime);
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  if (segments.length === 0 && tentativeSegments.length === 0) {
+    return <p className="text-slate-500 text-base italic">{emptyMessage}</p>;
+  }
+
+  const allSegments = [...segments, ...tentativeSegments];
+  const speakers = Array.from(new Set(allSegments.map(s => s.speaker)));
+
+  return (
+    <ol className="space-y-4">
+      {allSegments.map((segment, index) => {
+        const isTentative = index >= segments.length;
+        const isActive = index === activeIndex;
+        return (
+          <li
+            key={`${segment.start}-${index}`}
+            ref={isActive ? activeItemRef : undefined}
+            className={`flex items-start space-x-4 rounded-lg -mx-2 px-2 py-1 transition-colors ${isTentative ? 'opacity-60' : ''} ${isActive ? 'bg-blue-500/10' : ''}`}
+            title={isTentative ? 'Texto provisional' : undefined}
+          >
+            <button
+              type="button"
+              onClick={() => onSeek?.(segment.start)}
+              disabled={!onSeek}
+              className={`text-xs font-mono tabular-nums pt-1.5 w-12 flex-shrink-0 text-left ${isActive ? 'text-blue-300' : 'text-slate-500'} ${onSeek ? 'hover:text-white cursor-pointer' : 'cursor-default'}`}
+            >
+              {formatTime(segment.start)}
+            </button>
+            <div className="flex-1 min-w-0">
+              <span className={`inline-block text-[10px] uppercase tracking-wider font-bold px-1.5 py-0.5 rounded border mb-1 ${SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]}`}>
+                {segment.speaker}
+              </span>
+              <p className={`leading-relaxed ${isTentative ? 'text-slate-400 italic' : 'text-slate-200'}`}>
+                {onSeek
+                  ? estimateWordTimes(segment).map((word, i) => (
+                      <React.Fragment key={i}>
+                        {i > 0 && ' '}
+                        <span onClick={() => onSeek(word.start)} className="cursor-pointer rounded hover:bg-slate-700/60">
+                          {word.text}
+                        </span>
+                      </React.Fragment>
+                    ))
+                  : segment.text}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Voice, VoiceGender } from '../types';
+import { filterVoices, getVoiceStyles, TTS_LANGUAGES, VOICE_GENDER_LABELS, VoiceFilter } from '../services/voiceCatalog';
+
+interface VoiceBrowserProps {
+  voices: Voice[];
+  selectedId: string;
+  onSelect: (voiceId: string) => void;
+  onPreview: (voiceId: string) => Promise<string>; // Resolves to a playable URL
+}
+
+const FILTER_SELECT_CLASS = 'bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1 focus:outline-none focus:border-blue-500';
+
+export const VoiceBrowser: React.FC<VoiceBrowserProps> = ({ voices, selectedId, onSelect, onPreview }) => {
+  const [filter, setFilter] = useState<VoiceFilter>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [failedId, setFailedId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const requestedIdRef = useRef<string | null>(null); // Latest preview asked for; older ones are dropped
+
+  useEffect(() => {
+    return () => audioRef.current?.pause();
+  }, []);
+
+  const handlePreview = async (voiceId: string) => {
+    audioRef.current?.pause();
+    if (playingId === voiceId) {
+      setPlayingId(null);
+      return;
+    }
+    setPlayingId(null);
+    setFailedId(null);
+    setLoadingId(voiceId);
+    requestedIdRef.current = voiceId;
+    try {
+      const url = await onPreview(voiceId);
+      if (requestedIdRef.current !== voiceId) return;
+      const audio = new Audio(url);
+      audio.onended = () => setPlayingId(current => (current === voiceId ? null : current));
+      audioRef.current = audio;
+      await audio.play();
+      setPlayingId(voiceId);
+    } catch (e) {
+      console.error("Voice preview failed", e);
+      setFailedId(voiceId);
+    } finally {
+      setLoadingId(current => (current === voiceId ? null : current));
+    }
+  };
+
+  const visible = filterVoices(voices, filter);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.gender ?? ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, gender: (e.target.value || undefined) as VoiceGender | undefined }))}
+          className={FILTER_SELECT_CLASS}
+        >
+          <option value="">Todas las voces</option>
+          {(Object.keys(VOICE_GENDER_LABELS) as VoiceGender[]).map(gender => (
+            <option key={gender} value={gender}>{VOICE_GENDER_LABELS[gender]}</option>
+          ))}
+        </select>
+        <select
+          value={filter.style ?? ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, style: e.target.value || undefined }))}
+          className={FILTER_SELECT_CLASS}
+        >
+          <option value="">Cualquier tono</option>
+          {getVoiceStyles().map(style => (
+            <option key={style} value={style}>{style}</option>
+          ))}
+        </select>
+        <select
+          value={filter.language ?? ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, language: e.target.value || undefined }))}
+          className={FILTER_SELECT_CLASS}
+        >
+          <option value="">Cualquier idioma</option>
+          {TTS_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500 font-mono tabular-nums">{visible.length}/{voices.length}</span>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">Ninguna voz coincide con los filtros.</p>
+      ) : (
+        <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-64 overflow-y-auto pr-1">
+          {visible.map(voice => {
+            const isSelected = voice.id === selectedId;
+            return (
+              <li
+                key={voice.id}
+                className={`flex items-center gap-2 rounded-lg border px-3 py-2 transition-colors ${isSelected ? 'border-blue-500/50 bg-blue-500/10' : 'border-slate-800 bg-slate-900/50 hover:border-slate-700'}`}
+              >
+                <button onClick={() => onSelect(voice.id)} className="flex-1 min-w-0 text-left">
+                  <span className={`block truncate text-sm font-medium ${isSelected ? 'text-white' : 'text-slate-200'}`}>{voice.name}</span>
+                  <span className="block truncate text-xs text-slate-500">
+                    {[VOICE_GENDER_LABELS[voice.gender], ...voice.styles].join(' · ')}
+                  </span>
+                </button>
+                <button
+                  onClick={() => handlePreview(voice.id)}
+                  disabled={loadingId === voice.id}
+                  className={`p-1.5 rounded-lg transition-colors ${failedId === voice.id ? 'text-red-400' : 'text-slate-400 hover:text-white hover:bg-slate-700'}`}
+                  title={failedId === voice.id ? 'No se pudo cargar la muestra. Reintentar' : playingId === voice.id ? 'Detener muestra' : 'Escuchar muestra'}
+                >
+                  {loadingId === voice.id ? (
+                    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  ) : playingId === voice.id ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" />
+                    </svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+                    </svg>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
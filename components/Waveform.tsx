@@ -0,0 +1,113 @@
+import React, { useEffect, useRef } from 'react';
+import { AudioRegion } from '../types';
+
+interface WaveformProps {
+  peaks: Float32Array; // From computeWaveformPeaks, covering the whole track
+  duration: number;
+  currentTime: number;
+  region: AudioRegion | null;
+  onSeek: (time: number) => void;
+  onRegionChange: (region: AudioRegion | null) => void;
+}
+
+// Pointer movement below this many CSS pixels is treated as a click, not a drag
+const DRAG_THRESHOLD_PX = 4;
+// Regions shorter than this are almost always accidental drags
+const MIN_REGION_SECONDS = 0.1;
+
+export const Waveform: React.FC<WaveformProps> = ({ peaks, duration, currentTime, region, onSeek, onRegionChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; startTime: number; isDragging: boolean } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.max(1, Math.floor(canvas.clientWidth * ratio));
+    const height = Math.max(1, Math.floor(canvas.clientHeight * ratio));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    context.clearRect(0, 0, width, height);
+    const toX = (time: number) => (duration > 0 ? (time / duration) * width : 0);
+
+    if (region) {
+      context.fillStyle = 'rgba(99, 102, 241, 0.2)';
+      context.fillRect(toX(region.start), 0, toX(region.end) - toX(region.start), height);
+    }
+
+    // Each pixel column shows the loudest bucket it covers
+    const playedX = toX(currentTime);
+    const bucketsPerColumn = peaks.length / width;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(x * bucketsPerColumn);
+      const to = Math.max(from + 1, Math.floor((x + 1) * bucketsPerColumn));
+      let peak = 0;
+      for (let i = from; i < to && i < peaks.length; i++) {
+        if (peaks[i] > peak) peak = peaks[i];
+      }
+      const barHeight = Math.max(ratio, peak * height);
+      context.fillStyle = x < playedX ? '#818cf8' : '#475569';
+      context.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+    }
+
+    context.fillStyle = '#f1f5f9';
+    context.fillRect(Math.min(playedX, width - ratio), 0, ratio, height);
+  }, [peaks, duration, currentTime, region]);
+
+  const timeAt = (clientX: number): number => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return fraction * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startTime: timeAt(e.clientX), isDragging: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.isDragging && Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD_PX) return;
+    drag.isDragging = true;
+    const time = timeAt(e.clientX);
+    onRegionChange({ start: Math.min(drag.startTime, time), end: Math.max(drag.startTime, time) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (!drag.isDragging) {
+      onSeek(drag.startTime);
+      return;
+    }
+    const time = timeAt(e.clientX);
+    const start = Math.min(drag.startTime, time);
+    const end = Math.max(drag.startTime, time);
+    if (end - start < MIN_REGION_SECONDS) {
+      onRegionChange(null);
+    } else {
+      onRegionChange({ start, end });
+      onSeek(start);
+    }
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+      className="w-full h-12 cursor-pointer touch-none"
+      title="Haz clic para saltar o arrastra para seleccionar una región"
+    />
+  );
+};
@@ -0,0 +1,119 @@
+import { BatchItem, TranscriptionHistoryItem } from "../types";
+import { getErrorMessage, isAbortError } from "./speechErrors";
+import { resolveMediaMimeType } from "../utils/audioUtils";
+import { serializeSubtitles } from "../utils/subtitleUtils";
+import { createZip, ZipEntry } from "../utils/zipUtils";
+
+export interface BatchQueue {
+  /** Queues files and starts as many as the concurrency limit allows. */
+  add: (files: File[]) => void;
+  /** Queues a failed item again. */
+  retry: (id: string) => void;
+  /** Drops finished and failed items from the list. */
+  clearFinished: () => void;
+  /** Aborts running items and marks everything unfinished as failed so it can be retried. */
+  cancel: () => void;
+}
+
+/**
+ * Transcribes many files with at most `concurrency` running at once. Each file is
+ * processed independently: a failure only affects its own entry.
+ * @param transcribe - Transcribes one item and saves it to history; must honour the signal.
+ * @param onChange - Receives the full list whenever an item changes.
+ * @param concurrency - Files processed at the same time. Each one may already send several
+ *   chunk requests in parallel, so this stays low.
+ */
+export const createBatchQueue = (
+  transcribe: (item: BatchItem, signal: AbortSignal) => Promise<TranscriptionHistoryItem>,
+  onChange: (items: BatchItem[]) => void,
+  concurrency: number = 2
+): BatchQueue => {
+  let items: BatchItem[] = [];
+  let controller = new AbortController();
+  let running = 0;
+  let nextId = 0;
+
+  const update = (id: string, changes: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    onChange(items);
+  };
+
+  const run = async (item: BatchItem, signal: AbortSignal) => {
+    running++;
+    update(item.id, { status: 'processing', error: undefined });
+    try {
+      const result = await transcribe(item, signal);
+      if (!signal.aborted) update(item.id, { status: 'done', result });
+    } catch (error) {
+      if (!signal.aborted && !isAbortError(error)) {
+        update(item.id, { status: 'error', error: getErrorMessage(error, "Failed to transcribe this file.") });
+      }
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) return;
+      run(next, controller.signal);
+    }
+  };
+
+  return {
+    add: files => {
+      const added = files.map((file): BatchItem => ({
+        id: `${Date.now()}-${nextId++}`,
+        file,
+        mimeType: resolveMediaMimeType(file),
+        status: 'queued',
+      }));
+      items = [...items, ...added];
+      onChange(items);
+      pump();
+    },
+    retry: id => {
+      update(id, { status: 'queued', error: undefined });
+      pump();
+    },
+    clearFinished: () => {
+      items = items.filter(item => item.status === 'queued' || item.status === 'processing');
+      onChange(items);
+    },
+    cancel: () => {
+      controller.abort();
+      controller = new AbortController();
+      items = items.map(item =>
+        item.status === 'queued' || item.status === 'processing'
+          ? { ...item, status: 'error', error: "Cancelled." }
+          : item
+      );
+      onChange(items);
+    },
+  };
+};
+
+/**
+ * Bundles every finished transcript as a .txt and a .srt file named after its source file.
+ */
+export const buildTranscriptArchive = (items: BatchItem[]): Blob => {
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+
+  items.forEach(item => {
+    if (!item.result) return;
+    const base = item.file.name.replace(/\.[^.]+$/, '') || 'transcripcion';
+    let name = base;
+    for (let copy = 2; usedNames.has(name); copy++) name = `${base} (${copy})`;
+    usedNames.add(name);
+
+    entries.push(
+      { name: `${name}.txt`, data: item.result.text },
+      { name: `${name}.srt`, data: serializeSubtitles(item.result.segments, 'srt') }
+    );
+  });
+
+  return createZip(entries);
+};
@@ -1,104 +1,582 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Schema, SpeechConfig, Type } from "@google/genai";
+import {
+  ActionItem,
+  SpeakerVoice,
+  SpeechProvider,
+  SynthesisOptions,
+  TranscriptAction,
+  TranscriptChapter,
+  TranscriptInsights,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptSegment,
+} from "../types";
+import { withRetry } from "../utils/asyncUtils";
+import { buildGlossaryPrompt } from "../utils/glossaryUtils";
+import { applyOutputOptions, buildOutputPrompt } from "../utils/transcriptOutput";
+import { applySpeechStyle } from "../utils/speechStyle";
+import {
+  parseActionItems,
+  parseChapters,
+  parseDetectedLanguage,
+  parseKeywords,
+  parseTranscriptSegments,
+  segmentsToText,
+} from "../utils/transcriptUtils";
+import {
+  CancelledError,
+  EmptyAudioError,
+  MissingApiKeyError,
+  NetworkError,
+  PayloadTooLargeError,
+  RateLimitError,
+  SafetyBlockError,
+  SpeechServiceError,
+  isAbortError,
+} from "./speechErrors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const TRANSCRIPTION_MODEL = 'gemini-2.5-flash';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app can run with another provider when no API key is configured
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new MissingApiKeyError("API_KEY is not set.");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const BLOCKING_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+/**
+ * Reads the retry delay Gemini suggests in rate limit errors (e.g. "retryDelay": "17s").
+ */
+const parseRetryDelay = (detail: string): number | undefined => {
+  const match = detail.match(/retry(?:Delay"?\s*:\s*"|\s+in\s+)([\d.]+)s/i);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Maps anything thrown by the SDK, the network or our own response checks to a typed error.
+ */
+const classifyError = (error: unknown, fallbackMessage: string): SpeechServiceError => {
+  if (error instanceof SpeechServiceError) return error;
+  if (isAbortError(error)) return new CancelledError(error);
+  const detail = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ApiError) {
+    if (error.status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(detail)) {
+      return new RateLimitError(detail, parseRetryDelay(detail), error);
+    }
+    if (error.status === 413 || /payload size|too large/i.test(detail)) {
+      return new PayloadTooLargeError(detail, error);
+    }
+    if (error.status === 401 || error.status === 403 || /API key/i.test(detail)) {
+      return new MissingApiKeyError(detail, error);
+    }
+    if (error.status >= 500) {
+      return new SpeechServiceError('server', "The Gemini service is temporarily unavailable. Try again in a few moments.", { retryable: true, detail, cause: error });
+    }
+    return new SpeechServiceError('unknown', fallbackMessage, { detail, cause: error });
+  }
+
+  if (/failed to fetch|fetch failed|network|load failed/i.test(detail)) {
+    return new NetworkError(detail, error);
+  }
+  return new SpeechServiceError('unknown', fallbackMessage, { detail, cause: error });
+};
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(response.promptFeedback?.blockReasonMessage || `Blocked: ${blockReason || finishReason}`);
+  }
+};
+
+/**
+ * Runs a Gemini request, retrying transient failures with exponential backoff, and
+ * rethrows anything else as a typed SpeechServiceError. Aborting `signal` cancels both the
+ * request in flight and any pending retry.
+ */
+const runRequest = async <T>(request: () => Promise<T>, fallbackMessage: string, signal?: AbortSignal): Promise<T> => {
+  try {
+    return await withRetry(async () => {
+      try {
+        return await request();
+      } catch (error) {
+        throw signal?.aborted ? new CancelledError(error) : classifyError(error, fallbackMessage);
+      }
+    }, {
+      shouldRetry: error => error instanceof SpeechServiceError && error.retryable,
+      getRetryAfterMs: error => (error instanceof RateLimitError ? error.retryAfterMs : undefined),
+      signal,
+    });
+  } catch (error) {
+    // withRetry raises a plain AbortError when aborted between attempts
+    throw classifyError(error, fallbackMessage);
+  }
+};
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time of the segment in seconds." },
+          end: { type: Type.NUMBER, description: "End time of the segment in seconds." },
+          speaker: { type: Type.STRING, description: "Speaker label, e.g. 'Speaker 1'." },
+          text: { type: Type.STRING, description: "Text spoken in the segment, written as the instructions say." },
+        },
+        required: ['start', 'end', 'speaker', 'text'],
+        propertyOrdering: ['start', 'end', 'speaker', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+// Added to the schema only when detection is requested, so plain transcripts cost nothing extra
+const TRANSCRIPT_SCHEMA_WITH_LANGUAGE = {
+  ...TRANSCRIPT_SCHEMA,
+  properties: {
+    ...TRANSCRIPT_SCHEMA.properties,
+    language: { type: Type.STRING, description: "BCP 47 tag of the main spoken language, e.g. 'es' or 'en-US'." },
+  },
+  required: ['segments', 'language'],
+};
 
 /**
  * Transcribes the provided audio base64 string using Gemini Flash.
  * @param base64Audio - The base64 encoded audio string.
  * @param mimeType - The MIME type of the audio (e.g., 'audio/webm').
- * @returns The transcribed text.
+ * @param signal - Aborts the request.
+ * @param options - Extra information to ask the model for, how to write the text and the
+ *   glossary to spell terms with.
+ * @returns The transcription as ordered, timestamped segments.
  */
-export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<string> => {
+export const transcribeAudio = async (
+  base64Audio: string,
+  mimeType: string,
+  signal?: AbortSignal,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult> => {
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
+    return await runRequest(async () => {
+      const response = await getClient().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: mimeType,
+                data: base64Audio,
+              },
             },
-          },
-          {
-            text: `Please transcribe the following audio. 
-            - If it is speech, transcribe it verbatim.
-            - If there are multiple speakers, try to label them (Speaker 1, Speaker 2).
-            - Output ONLY the transcription text, no preamble or markdown formatting like 'Here is the transcription:'.`
-          }
-        ],
-      },
-    });
+            {
+              text: `Please transcribe the following audio.
+              ${buildOutputPrompt(options.output)}
+              ${buildGlossaryPrompt(options.glossary)}`
+            }
+          ],
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: options.detectLanguage ? TRANSCRIPT_SCHEMA_WITH_LANGUAGE : TRANSCRIPT_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+
+      assertNotBlocked(response);
 
-    return response.text || "No transcription generated.";
+      let payload: unknown;
+      let segments;
+      try {
+        payload = JSON.parse(response.text || '{"segments": []}');
+        segments = applyOutputOptions(parseTranscriptSegments(payload), options.output);
+      } catch (error) {
+        throw new SpeechServiceError('invalid_response', "The model returned a malformed transcript. Please try again.", {
+          retryable: true,
+          detail: error instanceof Error ? error.message : String(error),
+          cause: error,
+        });
+      }
+
+      return {
+        segments,
+        text: segmentsToText(segments),
+        detectedLanguage: options.detectLanguage ? parseDetectedLanguage(payload) : undefined,
+        timestamp: Date.now(),
+      };
+    }, "Failed to transcribe audio. Please try again.", signal);
   } catch (error) {
-    console.error("Gemini Transcription Error:", error);
-    throw new Error("Failed to transcribe audio. Please try again.");
+    if (!isAbortError(error)) console.error("Gemini Transcription Error:", error);
+    throw error;
   }
 };
 
 /**
  * Improves text to make it sound more natural for speech synthesis.
  * @param text - The raw input text.
+ * @param signal - Aborts the request.
+ * @param language - BCP 47 tag the text will be read in; the original language is kept when absent.
  * @returns The improved text.
  */
-export const improveTextForSpeech = async (text: string): Promise<string> => {
+export const improveTextForSpeech = async (text: string, signal?: AbortSignal, language?: string): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: [{
-        parts: [{
-          text: `Actúa como un editor experto en guiones de locución. Mejora el siguiente texto para que suene natural, fluido y profesional al ser leído por una IA de texto a voz.
+    return await runRequest(async () => {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: [{
+          parts: [{
+            text: `Actúa como un editor experto en guiones de locución. Mejora el siguiente texto para que suene natural, fluido y profesional al ser leído por una IA de texto a voz.
           
-          Instrucciones:
-          1. Corrige gramática y puntuación (crucial para las pausas de la IA).
-          2. Mejora el flujo de las oraciones sin cambiar el significado original.
-          3. Elimina repeticiones innecesarias.
-          4. Mantén el mismo idioma del texto original.
-          5. Devuelve SOLO el texto mejorado, sin introducciones ni explicaciones.
-
-          Texto original:
-          "${text}"`
-        }]
-      }]
+            Instrucciones:
+            1. Corrige gramática y puntuación (crucial para las pausas de la IA).
+            2. Mejora el flujo de las oraciones sin cambiar el significado original.
+            3. Elimina repeticiones innecesarias.
+            4. ${language
+              ? `El texto se leerá en el idioma ${language} (código BCP 47). Escribe el resultado en ese idioma, traduciéndolo si el original está en otro.`
+              : 'Mantén el mismo idioma del texto original.'}
+            5. Devuelve SOLO el texto mejorado, sin introducciones ni explicaciones.
+
+            Texto original:
+            "${text}"`
+          }]
+        }],
+        config: { abortSignal: signal },
+      });
+      assertNotBlocked(response);
+      return response.text || text;
+    }, "Failed to improve text.", signal);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Text Improvement Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Renders segments as "[12s] Speaker: text" lines so the model can refer to times.
+ */
+const formatTranscriptForPrompt = (segments: TranscriptSegment[]): string => {
+  return segments.map(s => `[${Math.round(s.start)}s] ${s.speaker}: ${s.text}`).join('\n');
+};
+
+/**
+ * Sends a prompt about a transcript to the text model and parses the reply. A reply that
+ * `parse` rejects is retried like a malformed transcript.
+ */
+const requestTranscriptAnalysis = <T>(
+  prompt: string,
+  segments: TranscriptSegment[],
+  parse: (text: string) => T,
+  fallbackMessage: string,
+  signal?: AbortSignal,
+  responseSchema?: Schema
+): Promise<T> => {
+  return runRequest(async () => {
+    const response = await getClient().models.generateContent({
+      model: TEXT_MODEL,
+      contents: [{ parts: [{ text: `${prompt}\n\nTranscripción:\n${formatTranscriptForPrompt(segments)}` }] }],
+      config: {
+        abortSignal: signal,
+        ...(responseSchema && { responseMimeType: 'application/json', responseSchema }),
+      },
     });
-    return response.text || text;
+    assertNotBlocked(response);
+    try {
+      return parse(response.text?.trim() ?? '');
+    } catch (error) {
+      throw new SpeechServiceError('invalid_response', fallbackMessage, {
+        retryable: true,
+        detail: error instanceof Error ? error.message : String(error),
+        cause: error,
+      });
+    }
+  }, fallbackMessage, signal);
+};
+
+const parsePlainText = (text: string): string => {
+  if (!text) throw new Error("The model returned an empty response.");
+  return text;
+};
+
+const ACTION_ITEMS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING, description: "What has to be done, as a short imperative sentence." },
+          owner: { type: Type.STRING, description: "Who is responsible, as named in the transcript. Omit if nobody is." },
+        },
+        required: ['task'],
+        propertyOrdering: ['task', 'owner'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+const CHAPTERS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time of the chapter in seconds, taken from the transcript." },
+          title: { type: Type.STRING, description: "Short chapter title." },
+        },
+        required: ['start', 'title'],
+        propertyOrdering: ['start', 'title'],
+      },
+    },
+  },
+  required: ['chapters'],
+};
+
+const KEYWORDS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['keywords'],
+};
+
+/**
+ * Writes an executive summary of a transcript, in the language of the transcript.
+ * @param segments - The transcript to summarize.
+ * @param signal - Aborts the request.
+ * @returns A few short paragraphs of plain text.
+ */
+export const summarizeTranscript = async (segments: TranscriptSegment[], signal?: AbortSignal): Promise<string> => {
+  try {
+    return await requestTranscriptAnalysis(
+      `Escribe un resumen ejecutivo de la siguiente transcripción: los temas tratados, las decisiones tomadas y las conclusiones, en uno a tres párrafos breves.
+      Escribe en el mismo idioma de la transcripción y devuelve SOLO el resumen, sin títulos ni introducciones.`,
+      segments, parsePlainText, "Failed to summarize the transcript.", signal
+    );
   } catch (error) {
-    console.error("Text Improvement Error:", error);
-    throw new Error("Failed to improve text.");
+    if (!isAbortError(error)) console.error("Transcript Summary Error:", error);
+    throw error;
   }
 };
 
 /**
- * Generates speech from text using Gemini Flash TTS.
- * @param text - The text to convert to speech.
- * @param voiceName - The specific voice to use (e.g., 'Kore', 'Fenrir').
- * @returns Base64 encoded raw PCM audio data.
+ * Lists the tasks agreed in a transcript, with the person responsible when one is named.
+ * @param segments - The transcript to analyze.
+ * @param signal - Aborts the request.
+ * @returns The action items in the order they come up; empty when there are none.
+ */
+export const extractActionItems = async (segments: TranscriptSegment[], signal?: AbortSignal): Promise<ActionItem[]> => {
+  try {
+    return await requestTranscriptAnalysis(
+      `Extrae de la siguiente transcripción las tareas o acciones pendientes que se acordaron, con la persona responsable si se menciona.
+      Escribe las tareas en el mismo idioma de la transcripción. Si no hay ninguna, devuelve una lista vacía.`,
+      segments, text => parseActionItems(JSON.parse(text)), "Failed to extract action items.", signal, ACTION_ITEMS_SCHEMA
+    );
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Action Items Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Splits a transcript into chapters with a title each.
+ * @param segments - The transcript to analyze.
+ * @param signal - Aborts the request.
+ * @returns Chapters ordered by start time.
  */
-export const generateSpeechFromText = async (text: string, voiceName: string = 'Kore'): Promise<string> => {
+export const generateChapters = async (segments: TranscriptSegment[], signal?: AbortSignal): Promise<TranscriptChapter[]> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+    return await requestTranscriptAnalysis(
+      `Divide la siguiente transcripción en capítulos según los cambios de tema. Cada capítulo empieza en el tiempo (en segundos) de la línea donde comienza y lleva un título breve y descriptivo.
+      Escribe los títulos en el mismo idioma de la transcripción. Una conversación corta puede tener un solo capítulo.`,
+      segments, text => parseChapters(JSON.parse(text)), "Failed to generate chapters.", signal, CHAPTERS_SCHEMA
+    );
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Chapters Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Extracts the main keywords and key phrases of a transcript.
+ * @param segments - The transcript to analyze.
+ * @param signal - Aborts the request.
+ * @returns Up to about fifteen keywords, most relevant first.
+ */
+export const extractKeywords = async (segments: TranscriptSegment[], signal?: AbortSignal): Promise<string[]> => {
+  try {
+    return await requestTranscriptAnalysis(
+      `Extrae hasta 15 palabras clave o frases clave que mejor representen el contenido de la siguiente transcripción, de la más a la menos relevante.
+      Usa el idioma de la transcripción y conserva nombres propios y términos técnicos tal como aparecen.`,
+      segments, text => parseKeywords(JSON.parse(text)), "Failed to extract keywords.", signal, KEYWORDS_SCHEMA
+    );
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Keywords Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Translates a transcript line by line, keeping the speaker labels.
+ * @param segments - The transcript to translate.
+ * @param targetLanguage - BCP 47 tag of the language to translate into.
+ * @param signal - Aborts the request.
+ * @returns "Speaker: text" lines in the target language.
+ */
+export const translateTranscript = async (segments: TranscriptSegment[], targetLanguage: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const text = await requestTranscriptAnalysis(
+      `Traduce la siguiente transcripción al idioma ${targetLanguage} (código BCP 47).
+      Conserva una línea por intervención con el formato "Hablante: texto", sin los tiempos entre corchetes, y no traduzcas las etiquetas de los hablantes.
+      Devuelve SOLO la traducción, sin introducciones ni explicaciones.`,
+      segments, parsePlainText, "Failed to translate the transcript.", signal
+    );
+    return text.replace(/^\[\d+s\]\s*/gm, '');
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Translation Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Runs one post-processing action and returns its result as a partial TranscriptInsights.
+ */
+export const analyzeTranscript = async (
+  action: TranscriptAction,
+  segments: TranscriptSegment[],
+  signal?: AbortSignal,
+  targetLanguage?: string
+): Promise<TranscriptInsights> => {
+  switch (action) {
+    case 'summary':
+      return { summary: await summarizeTranscript(segments, signal) };
+    case 'actionItems':
+      return { actionItems: await extractActionItems(segments, signal) };
+    case 'chapters':
+      return { chapters: await generateChapters(segments, signal) };
+    case 'keywords':
+      return { keywords: await extractKeywords(segments, signal) };
+    case 'translation': {
+      if (!targetLanguage) throw new Error("A target language is required for translation.");
+      return { translation: { language: targetLanguage, text: await translateTranscript(segments, targetLanguage, signal) } };
+    }
+  }
+};
+
+// Multi-speaker TTS accepts exactly this many speakers per request
+const MAX_DIALOGUE_SPEAKERS = 2;
+
+/**
+ * Runs a TTS request and returns the audio of the first candidate.
+ */
+const requestSpeech = (text: string, speechConfig: SpeechConfig, signal?: AbortSignal, language?: string): Promise<string> => {
+  return runRequest(async () => {
+    const response = await getClient().models.generateContent({
+      model: TTS_MODEL,
       contents: [{ parts: [{ text: text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName },
-          },
-        },
+        speechConfig: language ? { ...speechConfig, languageCode: language } : speechConfig,
+        abortSignal: signal,
       },
     });
 
+    assertNotBlocked(response);
+
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
+  
     if (!base64Audio) {
-      throw new Error("No audio content generated.");
+      throw new EmptyAudioError(`No audio content generated (finish reason: ${response.candidates?.[0]?.finishReason ?? 'none'}).`);
     }
-    
+  
     return base64Audio;
+  }, "Failed to generate speech. Please try again.", signal);
+};
+
+/**
+ * Generates speech from text using Gemini Flash TTS.
+ * @param text - The text to convert to speech.
+ * @param voiceName - The specific voice to use (e.g., 'Kore', 'Fenrir').
+ * @param signal - Aborts the request.
+ * @param options - Delivery style and words to stress, sent as a prompt ahead of the text.
+ * @returns Base64 encoded raw PCM audio data.
+ */
+export const generateSpeechFromText = async (
+  text: string,
+  voiceName: string = 'Kore',
+  signal?: AbortSignal,
+  options: SynthesisOptions = {}
+): Promise<string> => {
+  try {
+    return await requestSpeech(applySpeechStyle(text, options.style, options.emphasis), {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName: voiceName },
+      },
+    }, signal, options.language);
   } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    throw new Error("Failed to generate speech. Please try again.");
+    if (!isAbortError(error)) console.error("Gemini TTS Error:", error);
+    throw error;
   }
+};
+
+/**
+ * Generates a conversation in one request with the multi-speaker TTS config.
+ * @param script - "Name: text" lines; names must match `speakers`.
+ * @param speakers - The voice for each speaker, at most MAX_DIALOGUE_SPEAKERS.
+ * @param signal - Aborts the request.
+ * @param options - Delivery style and words to stress, applied to every speaker.
+ * @returns Base64 encoded raw PCM audio data.
+ */
+export const generateDialogueSpeech = async (
+  script: string,
+  speakers: SpeakerVoice[],
+  signal?: AbortSignal,
+  options: SynthesisOptions = {}
+): Promise<string> => {
+  try {
+    const names = speakers.map(s => s.speaker).join(' and ');
+    return await requestSpeech(applySpeechStyle(`TTS the following conversation between ${names}:\n${script}`, options.style, options.emphasis), {
+      multiSpeakerVoiceConfig: {
+        speakerVoiceConfigs: speakers.map(s => ({
+          speaker: s.speaker,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voiceId } },
+        })),
+      },
+    }, signal, options.language);
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Gemini dialogue TTS Error:", error);
+    throw error;
+  }
+};
+
+export const geminiProvider: SpeechProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  transcribe: transcribeAudio,
+  improveText: improveTextForSpeech,
+  analyzeTranscript,
+  synthesize: generateSpeechFromText,
+  synthesizeDialogue: generateDialogueSpeech,
+  maxDialogueSpeakers: MAX_DIALOGUE_SPEAKERS,
 };
\ No newline at end of file
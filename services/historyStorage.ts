@@ -0,0 +1,169 @@
+import { HistoryItem, TranscriptionHistoryItem } from "../types";
+
+const DB_NAME = 'audioai_studio';
+const DB_VERSION = 2;
+const AUDIO_STORE = 'history_audio';
+const TRANSCRIPTION_STORE = 'transcriptions';
+const TRANSCRIPTION_AUDIO_STORE = 'transcription_audio';
+
+const HISTORY_STORAGE_KEY = 'audio_history_v2';
+const LEGACY_HISTORY_STORAGE_KEY = 'audio_history_v1';
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+        // Transcripts can be far larger than the localStorage quota, so they live in IndexedDB
+        if (!db.objectStoreNames.contains(TRANSCRIPTION_STORE)) {
+          db.createObjectStore(TRANSCRIPTION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TRANSCRIPTION_AUDIO_STORE)) {
+          db.createObjectStore(TRANSCRIPTION_AUDIO_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result once the
+ * transaction has committed.
+ */
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Object URLs are only valid for the current page, so they are never persisted
+const toStored = <T extends { audioUrl?: string }>({ audioUrl: _audioUrl, ...item }: T): Omit<T, 'audioUrl'> => item;
+
+const withAudioUrl = async <T extends { id: string }>(item: T, audioStore: string): Promise<T> => {
+  try {
+    const blob = await withStore<Blob | undefined>(audioStore, 'readonly', store => store.get(item.id));
+    return blob ? { ...item, audioUrl: URL.createObjectURL(blob) } : item;
+  } catch (e) {
+    console.error("Failed to load stored audio", e);
+    return item;
+  }
+};
+
+/**
+ * Converts entries saved under the old localStorage key. Their audio was only ever a
+ * session blob URL, so it cannot be recovered; the text and voice are kept for regeneration.
+ */
+const migrateLegacyHistory = (): HistoryItem[] => {
+  const legacy = localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+  if (!legacy) return [];
+
+  let items: HistoryItem[] = [];
+  try {
+    items = (JSON.parse(legacy) as HistoryItem[]).map(toStored);
+  } catch (e) {
+    console.error("Failed to parse legacy history", e);
+  }
+
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(items));
+  localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+  return items;
+};
+
+/**
+ * Loads the history metadata and rehydrates an object URL for every item whose audio is
+ * stored in IndexedDB.
+ */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  let items: HistoryItem[];
+  const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (saved) {
+    try {
+      items = JSON.parse(saved);
+    } catch (e) {
+      console.error("Failed to parse history", e);
+      items = [];
+    }
+  } else {
+    items = migrateLegacyHistory();
+  }
+
+  return Promise.all(items.map(item => withAudioUrl(item, AUDIO_STORE)));
+};
+
+/**
+ * Persists the history metadata (everything except the audio itself).
+ */
+export const saveHistory = (items: HistoryItem[]): void => {
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(items.map(toStored)));
+};
+
+export const saveHistoryAudio = async (id: string, blob: Blob): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.put(blob, id));
+};
+
+export const deleteHistoryAudio = async (id: string): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const clearHistoryAudio = async (): Promise<void> => {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.clear());
+};
+
+/**
+ * Loads all saved transcriptions, newest first, with object URLs for any stored source audio.
+ */
+export const loadTranscriptionHistory = async (): Promise<TranscriptionHistoryItem[]> => {
+  const items = await withStore<TranscriptionHistoryItem[]>(TRANSCRIPTION_STORE, 'readonly', store => store.getAll());
+  items.sort((a, b) => b.timestamp - a.timestamp);
+  return Promise.all(items.map(item => withAudioUrl(item, TRANSCRIPTION_AUDIO_STORE)));
+};
+
+/**
+ * Saves a transcription and, optionally, the audio it was made from.
+ */
+export const saveTranscription = async (item: TranscriptionHistoryItem, audio?: Blob): Promise<void> => {
+  await withStore(TRANSCRIPTION_STORE, 'readwrite', store => store.put(toStored(item)));
+  if (audio) {
+    await withStore(TRANSCRIPTION_AUDIO_STORE, 'readwrite', store => store.put(audio, item.id));
+  }
+};
+
+export const deleteTranscription = async (id: string): Promise<void> => {
+  await withStore(TRANSCRIPTION_STORE, 'readwrite', store => store.delete(id));
+  await withStore(TRANSCRIPTION_AUDIO_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Returns how much storage this origin uses, or null when the browser can't tell.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
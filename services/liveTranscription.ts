@@ -0,0 +1,140 @@
+import { SpeechProvider, TranscriptionOptions, TranscriptionResult, TranscriptSegment } from "../types";
+import { isAbortError } from "./speechErrors";
+import { throwIfAborted } from "../utils/asyncUtils";
+import { blobToBase64, decodeAudioToMono, floatToWavBlob } from "../utils/audioUtils";
+import { applyGlossary } from "../utils/glossaryUtils";
+import { pickDominantLanguage, segmentsToText } from "../utils/transcriptUtils";
+
+const LIVE_SAMPLE_RATE = 16000;
+
+export interface LiveTranscriptionOptions {
+  intervalMs: number; // Minimum time between two window requests
+  maxWindowSeconds: number; // Longest window sent in one request
+  settleSeconds: number; // Segments ending this close to the live edge may still change
+  transcription: TranscriptionOptions; // Passed to the provider for every window
+}
+
+export const DEFAULT_LIVE_OPTIONS: LiveTranscriptionOptions = {
+  intervalMs: 3000,
+  maxWindowSeconds: 30,
+  settleSeconds: 3,
+  transcription: {},
+};
+
+export interface LiveTranscript {
+  committed: TranscriptSegment[]; // Final text, never revised again
+  tentative: TranscriptSegment[]; // Text near the live edge, replaced on every update
+}
+
+export interface LiveTranscriber {
+  /** Adds a MediaRecorder timeslice and transcribes a new window if one is due. */
+  addChunk: (chunk: Blob) => void;
+  /** Transcribes whatever has not been committed yet and returns the full transcript. */
+  finish: () => Promise<TranscriptionResult>;
+}
+
+/**
+ * Transcribes a recording while it is still being captured. Every few seconds the audio
+ * recorded after the last committed segment is sent as one window; segments that end well
+ * before the live edge are committed and the rest are shown as tentative until the next
+ * window revises them.
+ *
+ * Timeslices after the first have no container header, so each window decodes the whole
+ * recording so far and slices it.
+ * @param provider - The backend that transcribes each window.
+ * @param mimeType - The MIME type the MediaRecorder produces.
+ * @param onUpdate - Receives the transcript whenever a window comes back.
+ * @param signal - Aborts the window in flight and stops further requests.
+ */
+export const createLiveTranscriber = (
+  provider: SpeechProvider,
+  mimeType: string,
+  onUpdate: (transcript: LiveTranscript) => void,
+  signal?: AbortSignal,
+  options: Partial<LiveTranscriptionOptions> = {}
+): LiveTranscriber => {
+  const { intervalMs, maxWindowSeconds, settleSeconds, transcription } = { ...DEFAULT_LIVE_OPTIONS, ...options };
+  const chunks: Blob[] = [];
+  let committed: TranscriptSegment[] = [];
+  let tentative: TranscriptSegment[] = [];
+  const languages: (string | undefined)[] = [];
+  let committedUntil = 0;
+  let duration = 0;
+  let lastRunAt = Date.now();
+  let inFlight: Promise<void> | null = null;
+
+  const transcribeWindow = async (isFinal: boolean) => {
+    const samples = await decodeAudioToMono(new Blob(chunks, { type: mimeType }), LIVE_SAMPLE_RATE);
+    throwIfAborted(signal);
+    duration = samples.length / LIVE_SAMPLE_RATE;
+
+    const windowStart = committedUntil;
+    const windowEnd = isFinal ? duration : Math.min(duration, windowStart + maxWindowSeconds);
+    if (windowEnd - windowStart < 0.5) return;
+
+    const slice = samples.subarray(Math.floor(windowStart * LIVE_SAMPLE_RATE), Math.ceil(windowEnd * LIVE_SAMPLE_RATE));
+    const result = await provider.transcribe(await blobToBase64(floatToWavBlob(slice, LIVE_SAMPLE_RATE)), 'audio/wav', signal, transcription);
+    throwIfAborted(signal);
+    languages.push(result.detectedLanguage);
+
+    const segments = applyGlossary(result.segments, transcription.glossary).map(s => ({
+      ...s,
+      start: windowStart + s.start,
+      end: Math.min(windowStart + s.end, windowEnd),
+    }));
+
+    // A window that hit the size limit is committed whole, otherwise a long monologue
+    // with no pause would never settle
+    const isFullWindow = windowEnd - windowStart >= maxWindowSeconds;
+    const settleAt = isFinal || isFullWindow ? Infinity : windowEnd - settleSeconds;
+    const firstUnsettled = segments.findIndex(s => s.end > settleAt);
+    const settled = firstUnsettled === -1 ? segments : segments.slice(0, firstUnsettled);
+
+    committed = [...committed, ...settled];
+    tentative = segments.slice(settled.length);
+    if (settled.length > 0) {
+      committedUntil = isFinal || isFullWindow ? windowEnd : settled[settled.length - 1].end;
+    } else if (segments.length === 0) {
+      // Nothing was said, so only the tail is kept in case a word is cut off at the edge
+      committedUntil = Math.max(committedUntil, windowEnd - settleSeconds);
+    }
+    onUpdate({ committed, tentative });
+  };
+
+  const run = (isFinal: boolean): Promise<void> => {
+    lastRunAt = Date.now();
+    inFlight = transcribeWindow(isFinal)
+      .catch(error => {
+        // A failed window is simply retried with more audio on the next tick
+        if (isFinal || isAbortError(error)) throw error;
+        console.warn("Live transcription window failed", error);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
+
+  return {
+    addChunk: (chunk: Blob) => {
+      chunks.push(chunk);
+      if (inFlight || signal?.aborted || Date.now() - lastRunAt < intervalMs) return;
+      run(false).catch(() => {
+        // Aborted; the caller already knows
+      });
+    },
+    finish: async () => {
+      if (inFlight) await inFlight.catch(() => undefined);
+      throwIfAborted(signal);
+      if (chunks.length > 0) await run(true);
+      const segments = [...committed, ...tentative];
+      return {
+        segments,
+        text: segmentsToText(segments),
+        detectedLanguage: pickDominantLanguage(languages),
+        duration,
+        timestamp: Date.now(),
+      };
+    },
+  };
+};
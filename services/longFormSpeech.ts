@@ -0,0 +1,170 @@
+import { ChunkProgress, SpeakerVoice, SpeechProvider, SynthesisOptions } from "../types";
+import { getErrorMessage, isAbortError } from "./speechErrors";
+import { mapWithConcurrency } from "../utils/asyncUtils";
+import { base64ToUint8Array, concatPcm, createSilence, pcmBytesToWavBlob, trimPcmSilence } from "../utils/audioUtils";
+import { SpeechPart } from "../utils/speechMarkup";
+import { splitTextIntoChunks, TextChunk } from "../utils/textUtils";
+
+// Keeps each request well inside what the TTS model narrates reliably in one response
+const MAX_CHARS_PER_CHUNK = 1500;
+const SPEECH_CONCURRENCY = 2;
+const TTS_SAMPLE_RATE = 24000;
+
+export interface SpeechChunk extends ChunkProgress {
+  text: string;
+  endsParagraph: boolean;
+  voiceName?: string; // Overrides the job's voice; set for dialogue lines
+  emphasis?: string[]; // Words from *emphasis* markup that appear in this chunk
+  pauseMs?: number; // Set for [pause] markup: the chunk is that much silence and is never synthesized
+  pcm?: Uint8Array;
+  errorMessage?: string; // Why the last attempt failed, for chunks with status 'error'
+}
+
+export interface CompiledDialogueLine {
+  speaker: string;
+  parts: SpeechPart[]; // The line's text after compileSpeechMarkup
+}
+
+type PlannedChunk = Omit<SpeechChunk, 'index' | 'label'>;
+
+const isPause = (chunk?: { pauseMs?: number }): boolean => chunk?.pauseMs !== undefined;
+
+/**
+ * Turns compiled markup into chunks without indexes or labels: pauses become finished
+ * chunks of silence, and speech is cut into pieces, each keeping the emphasis it contains.
+ */
+const partsToChunks = (parts: SpeechPart[], wholeParts: boolean): PlannedChunk[] => {
+  return parts.flatMap<PlannedChunk>(part => {
+    if (part.type === 'pause') {
+      const pcm = createSilence(part.ms, TTS_SAMPLE_RATE);
+      return [{ status: 'done', text: '', endsParagraph: false, pauseMs: part.ms, pcm }];
+    }
+    const pieces: TextChunk[] = wholeParts
+      ? [{ text: part.text, endsParagraph: false }]
+      : splitTextIntoChunks(part.text, MAX_CHARS_PER_CHUNK);
+    return pieces.map(piece => {
+      const emphasis = part.emphasis.filter(phrase => piece.text.includes(phrase));
+      return {
+        status: 'pending',
+        text: piece.text,
+        endsParagraph: piece.endsParagraph,
+        ...(emphasis.length > 0 && { emphasis }),
+      };
+    });
+  });
+};
+
+const pauseLabel = (ms: number): string => `Pausa de ${ms} ms`;
+
+/**
+ * Splits compiled text into the pieces that will be synthesized one request at a time.
+ * @param parts - Output of compileSpeechMarkup.
+ * @param wholeParts - Keeps each stretch of speech between pauses in one request, as
+ * single-request generation does, instead of cutting it at paragraphs and sentences.
+ */
+export const planSpeechChunks = (parts: SpeechPart[], wholeParts = false): SpeechChunk[] => {
+  return partsToChunks(parts, wholeParts).map((chunk, index) => ({
+    ...chunk,
+    index,
+    label: isPause(chunk) ? pauseLabel(chunk.pauseMs!) : chunk.text.slice(0, 60),
+  }));
+};
+
+/**
+ * Plans a dialogue for line-by-line synthesis: each line becomes one or more chunks in its
+ * speaker's voice, with a pause after every line.
+ * @param lines - Script lines with their compiled markup.
+ * @param speakers - The voice for each speaker in the script.
+ */
+export const planDialogueChunks = (lines: CompiledDialogueLine[], speakers: SpeakerVoice[]): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+  lines.forEach(line => {
+    const voiceName = speakers.find(s => s.speaker === line.speaker)?.voiceId;
+    const pieces = partsToChunks(line.parts, false);
+    pieces.forEach((piece, i) => {
+      const pause = isPause(piece);
+      chunks.push({
+        ...piece,
+        index: chunks.length,
+        label: `${line.speaker}: ${pause ? pauseLabel(piece.pauseMs!) : piece.text.slice(0, 50)}`,
+        endsParagraph: !pause && i === pieces.length - 1,
+        voiceName,
+      });
+    });
+  });
+  return chunks;
+};
+
+/**
+ * Synthesizes every chunk that is not already done. Failed chunks are marked as 'error'
+ * instead of rejecting, so calling this again retries only the chunks that failed.
+ * Aborting `signal` is the one failure that rejects.
+ * @param provider - The backend that synthesizes each chunk.
+ * @param chunks - Chunks from planSpeechChunks or a previous call.
+ * @param voiceName - The voice used for chunks that don't set their own.
+ * @param onUpdate - Receives the full chunk list whenever a chunk changes status.
+ * @param signal - Aborts every pending chunk request.
+ * @param options - Synthesis settings shared by every chunk, such as the style.
+ * @returns The chunk list with the outcome of this pass.
+ */
+export const synthesizeSpeechChunks = async (
+  provider: SpeechProvider,
+  chunks: SpeechChunk[],
+  voiceName: string,
+  onUpdate?: (chunks: SpeechChunk[]) => void,
+  signal?: AbortSignal,
+  options?: SynthesisOptions
+): Promise<SpeechChunk[]> => {
+  let current = chunks;
+  const update = (index: number, changes: Partial<SpeechChunk>) => {
+    current = current.map(c => (c.index === index ? { ...c, ...changes } : c));
+    onUpdate?.(current);
+  };
+
+  const pending = chunks.filter(c => c.status !== 'done');
+  await mapWithConcurrency(pending, SPEECH_CONCURRENCY, async chunk => {
+    update(chunk.index, { status: 'processing', errorMessage: undefined });
+    try {
+      const chunkOptions = chunk.emphasis ? { ...options, emphasis: chunk.emphasis } : options;
+      const base64Audio = await provider.synthesize(chunk.text, chunk.voiceName ?? voiceName, signal, chunkOptions);
+      update(chunk.index, { status: 'done', pcm: base64ToUint8Array(base64Audio) });
+    } catch (error) {
+      if (isAbortError(error)) {
+        update(chunk.index, { status: 'pending' });
+        throw error;
+      }
+      console.error(`Speech chunk ${chunk.index + 1} failed:`, error);
+      update(chunk.index, { status: 'error', errorMessage: getErrorMessage(error, "Failed to generate speech.") });
+    }
+  });
+
+  return current;
+};
+
+/**
+ * Joins the PCM of all chunks into one WAV, inserting silence between paragraphs.
+ * Speech next to a pause chunk loses its own leading or trailing silence, so the pause
+ * lasts exactly what the markup asked for.
+ * @param chunks - Chunks that have all been synthesized.
+ * @param paragraphGapMs - Silence inserted after each paragraph except the last, unless a
+ * pause follows it.
+ */
+export const assembleSpeech = (chunks: SpeechChunk[], paragraphGapMs: number): Blob => {
+  const parts: Uint8Array[] = [];
+  const gap = createSilence(paragraphGapMs, TTS_SAMPLE_RATE);
+
+  chunks.forEach((chunk, i) => {
+    if (!chunk.pcm) {
+      throw new Error(`Speech chunk ${chunk.index + 1} has no audio.`);
+    }
+    const previous = chunks[i - 1];
+    const next = chunks[i + 1];
+    const nextToPause = !isPause(chunk) && (isPause(previous) || isPause(next));
+    parts.push(nextToPause ? trimPcmSilence(chunk.pcm, { start: isPause(previous), end: isPause(next) }) : chunk.pcm);
+    if (chunk.endsParagraph && next && !isPause(next) && gap.length > 0) {
+      parts.push(gap);
+    }
+  });
+
+  return pcmBytesToWavBlob(concatPcm(parts), TTS_SAMPLE_RATE);
+};
@@ -0,0 +1,123 @@
+import { SpeechPace, SpeechProvider, SynthesisOptions, TranscriptAction, TranscriptInsights, TranscriptionOptions, TranscriptSegment } from "../types";
+import { sleep } from "../utils/asyncUtils";
+import { uint8ArrayToBase64 } from "../utils/audioUtils";
+import { applyOutputOptions } from "../utils/transcriptOutput";
+import { segmentsToText } from "../utils/transcriptUtils";
+
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_CHAR = 0.06;
+const MAX_TONE_SECONDS = 30;
+// How much longer than normal each pace reads
+const PACE_FACTORS: Record<SpeechPace, number> = { 'very-slow': 1.6, slow: 1.25, normal: 1, fast: 0.8, 'very-fast': 0.65 };
+// Each language reads up to 20% longer, in steps of this size
+const LANGUAGE_FACTOR_STEP = 0.05;
+const SECONDS_PER_STRESSED_WORD = 0.2;
+
+const CANNED_SEGMENTS: TranscriptSegment[] = [
+  { start: 0, end: 3.2, speaker: 'Speaker 1', text: 'Hola, esta es una transcripción de demostración.' },
+  { start: 3.4, end: 7.8, speaker: 'Speaker 2', text: 'El proveedor simulado no usa la red ni necesita una clave de API.' },
+  { start: 8.0, end: 11.5, speaker: 'Speaker 1', text: 'Perfecto, así podemos probar la interfaz sin conexión.' },
+];
+
+// Small deterministic string hash (djb2) used to give each voice its own pitch and each language its own length
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Generates a sine tone as 16-bit mono PCM, with short fades to avoid clicks.
+ */
+const generateTone = (seconds: number, frequency: number): Uint8Array => {
+  const length = Math.round(seconds * SAMPLE_RATE);
+  const fade = Math.min(Math.round(0.02 * SAMPLE_RATE), Math.floor(length / 2));
+  const pcm = new Uint8Array(length * 2);
+  const view = new DataView(pcm.buffer);
+
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / (fade || 1), (length - i) / (fade || 1));
+    const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.3 * envelope;
+    view.setInt16(i * 2, Math.round(sample * 0x7fff), true);
+  }
+  return pcm;
+};
+
+/**
+ * Tone length for a text, stretched by the requested options so each one is audible.
+ */
+const toneSeconds = (text: string, options: SynthesisOptions): number => {
+  const paceFactor = options.style ? PACE_FACTORS[options.style.pace] : 1;
+  const languageFactor = options.language ? 1 + (hashString(options.language) % 5) * LANGUAGE_FACTOR_STEP : 1;
+  const stressed = (options.emphasis?.length ?? 0) * SECONDS_PER_STRESSED_WORD;
+  return Math.min(MAX_TONE_SECONDS, Math.max(0.5, text.length * SECONDS_PER_CHAR * paceFactor * languageFactor + stressed));
+};
+
+/**
+ * Produces canned insights from the transcript itself: its first and last lines, its longest
+ * words and a tagged copy in place of a translation.
+ */
+const analyzeOffline = (action: TranscriptAction, segments: TranscriptSegment[], targetLanguage?: string): TranscriptInsights => {
+  switch (action) {
+    case 'summary':
+      return { summary: segments.length > 0 ? `${segments[0].text} … ${segments[segments.length - 1].text}` : '' };
+    case 'actionItems':
+      return { actionItems: segments.slice(0, 2).map(s => ({ task: `Revisar: ${s.text}`, owner: s.speaker })) };
+    case 'chapters':
+      return { chapters: segments.length > 0 ? [{ start: segments[0].start, title: 'Introducción' }] : [] };
+    case 'keywords': {
+      const words = segments.flatMap(s => s.text.toLowerCase().match(/\p{L}{6,}/gu) ?? []);
+      return { keywords: Array.from(new Set(words)).sort((a, b) => b.length - a.length).slice(0, 8) };
+    }
+    case 'translation': {
+      const language = targetLanguage ?? 'en-US';
+      return { translation: { language, text: segments.map(s => `${s.speaker}: [${language}] ${s.text}`).join('\n') } };
+    }
+  }
+};
+
+/**
+ * Creates an offline provider that returns canned transcripts and sine-tone speech.
+ * Output depends only on the input, so it can back demos and tests.
+ * @param latencyMs - Simulated response time for every call.
+ */
+export const createMockProvider = (latencyMs: number = 400): SpeechProvider => ({
+  id: 'mock',
+  name: 'Demo offline',
+
+  transcribe: async (_base64Audio: string, _mimeType: string, signal?: AbortSignal, options: TranscriptionOptions = {}) => {
+    await sleep(latencyMs, signal);
+    const segments = applyOutputOptions(CANNED_SEGMENTS, options.output);
+    return {
+      segments,
+      text: segmentsToText(segments),
+      detectedLanguage: options.detectLanguage ? 'es' : undefined,
+      timestamp: Date.now(),
+    };
+  },
+
+  improveText: async (text: string, signal?: AbortSignal, language?: string) => {
+    await sleep(latencyMs, signal);
+    const cleaned = text.replace(/\s+/g, ' ').trim();
+    if (!cleaned) return text;
+    const capitalized = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+    const sentence = /[.!?…]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+    // Tagged like the offline translation, in place of actually rewriting into the language
+    return language ? `[${language}] ${sentence}` : sentence;
+  },
+
+  analyzeTranscript: async (action: TranscriptAction, segments: TranscriptSegment[], signal?: AbortSignal, targetLanguage?: string) => {
+    await sleep(latencyMs, signal);
+    return analyzeOffline(action, segments, targetLanguage);
+  },
+
+  synthesize: async (text: string, voiceName: string, signal?: AbortSignal, options: SynthesisOptions = {}) => {
+    await sleep(latencyMs, signal);
+    const frequency = 220 + (hashString(voiceName) % 8) * 55;
+    return uint8ArrayToBase64(generateTone(toneSeconds(text, options), frequency));
+  },
+});
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,108 @@
+export type SpeechErrorCode =
+  | 'missing_api_key'
+  | 'rate_limited'
+  | 'payload_too_large'
+  | 'unsupported_audio'
+  | 'safety_blocked'
+  | 'empty_audio'
+  | 'network'
+  | 'server'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Base class for every error a speech provider reports. `message` is written for the
+ * user; `detail` keeps the provider's own error text for logs and bug reports.
+ */
+export class SpeechServiceError extends Error {
+  readonly code: SpeechErrorCode;
+  readonly retryable: boolean;
+  readonly detail?: string;
+
+  constructor(code: SpeechErrorCode, message: string, options: { retryable?: boolean; detail?: string; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'SpeechServiceError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.detail = options.detail;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export class MissingApiKeyError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('missing_api_key', "The Gemini API key is missing or invalid. Set API_KEY in your .env file and restart the app.", { detail, cause });
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class RateLimitError extends SpeechServiceError {
+  readonly retryAfterMs?: number;
+
+  constructor(detail?: string, retryAfterMs?: number, cause?: unknown) {
+    super('rate_limited', "The Gemini quota or rate limit was reached. Wait a minute and try again, or check your plan's limits.", { retryable: true, detail, cause });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class PayloadTooLargeError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('payload_too_large', "The audio or text is too large for a single request. Try a shorter file, or enable long-form mode for long texts.", { detail, cause });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class UnsupportedAudioError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('unsupported_audio', "This file's audio could not be read by the browser and its format isn't accepted by Gemini. Convert it to MP3, WAV or FLAC and try again.", { detail, cause });
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+export class SafetyBlockError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('safety_blocked', "The request was blocked by the model's safety filters. Rephrase the text or try different audio.", { detail, cause });
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class EmptyAudioError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    // The TTS model occasionally returns no audio for a valid request, so this is worth retrying
+    super('empty_audio', "The model returned no audio. Try again, or shorten the text.", { retryable: true, detail, cause });
+    this.name = 'EmptyAudioError';
+  }
+}
+
+export class NetworkError extends SpeechServiceError {
+  constructor(detail?: string, cause?: unknown) {
+    super('network', "Could not reach the Gemini API. Check your internet connection and try again.", { retryable: true, detail, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends SpeechServiceError {
+  constructor(cause?: unknown) {
+    super('cancelled', "The request was cancelled.", { cause });
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * True for errors caused by aborting a request, whether raised by a provider or by fetch.
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof CancelledError || (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+/**
+ * Returns the user-facing message for an error, or the fallback for errors that were not
+ * produced by a speech provider.
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  return error instanceof SpeechServiceError ? error.message : fallback;
+};
@@ -0,0 +1,15 @@
+import { SpeechProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export const SPEECH_PROVIDERS: SpeechProvider[] = [geminiProvider, mockProvider];
+
+/**
+ * Picks the provider named by the SPEECH_PROVIDER environment variable. Without one,
+ * Gemini is used when an API key is configured and the offline mock otherwise.
+ */
+export const resolveSpeechProvider = (): SpeechProvider => {
+  const requested = SPEECH_PROVIDERS.find(p => p.id === process.env.SPEECH_PROVIDER);
+  if (requested) return requested;
+  return process.env.API_KEY ? geminiProvider : mockProvider;
+};
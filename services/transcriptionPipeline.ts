@@ -0,0 +1,116 @@
+import { ChunkProgress, SpeechProvider, TranscriptionOptions, TranscriptionResult } from "../types";
+import { isAbortError, PayloadTooLargeError, UnsupportedAudioError } from "./speechErrors";
+import { mapWithConcurrency, throwIfAborted } from "../utils/asyncUtils";
+import { planAudioChunks } from "../utils/audioChunker";
+import {
+  blobToBase64,
+  DEFAULT_PREPROCESS_OPTIONS,
+  formatTime,
+  isSupportedAudioMimeType,
+  PreprocessedAudio,
+  PreprocessOptions,
+  preprocessAudio,
+} from "../utils/audioUtils";
+import { encodeFlac } from "../utils/flacEncoder";
+import { applyGlossary } from "../utils/glossaryUtils";
+import { pickDominantLanguage, segmentsToText, stitchChunkTranscripts } from "../utils/transcriptUtils";
+
+// Gemini rejects inline requests above 20MB, and base64 adds a third on top of the raw size
+const INLINE_AUDIO_LIMIT_BYTES = 14 * 1024 * 1024;
+const CHUNK_SAMPLE_RATE = 16000;
+const CHUNK_MIME_TYPE = 'audio/flac';
+const CHUNK_CONCURRENCY = 3;
+
+/**
+ * Transcribes audio of any length. The audio is first decoded to 16kHz mono (see
+ * preprocessAudio) and each window is uploaded as FLAC, so video files and containers
+ * Gemini doesn't accept work too.
+ * Recordings longer than one window are split into overlapping windows cut at silence,
+ * transcribed with bounded concurrency and stitched back together with global timestamps.
+ * Timestamps always refer to the original audio, even when silence was trimmed.
+ * @param provider - The backend that transcribes each chunk.
+ * @param blob - The recorded or uploaded audio.
+ * @param mimeType - The MIME type of the audio.
+ * @param onProgress - Receives the status of every chunk whenever one changes.
+ * @param signal - Aborts decoding and every chunk request.
+ * @param preprocess - Whether to trim silence and normalize loudness before uploading.
+ * @param transcription - Options passed to the provider for every chunk. Near-misses of the
+ *   glossary terms are corrected in every chunk's segments.
+ * @returns The stitched transcription.
+ */
+export const transcribeLongAudio = async (
+  provider: SpeechProvider,
+  blob: Blob,
+  mimeType: string,
+  onProgress?: (chunks: ChunkProgress[]) => void,
+  signal?: AbortSignal,
+  preprocess: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+  transcription: TranscriptionOptions = {}
+): Promise<TranscriptionResult> => {
+  let audio: PreprocessedAudio;
+  try {
+    audio = await preprocessAudio(blob, preprocess, CHUNK_SAMPLE_RATE);
+    throwIfAborted(signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // Files the browser can't decode can still be sent whole if Gemini reads the format itself
+    if (!isSupportedAudioMimeType(mimeType)) {
+      throw new UnsupportedAudioError(`Could not decode ${mimeType || "file of unknown type"}.`, error);
+    }
+    if (blob.size > INLINE_AUDIO_LIMIT_BYTES) {
+      throw new PayloadTooLargeError("Could not decode audio file for chunking.", error);
+    }
+    console.warn("Audio decoding failed, sending the file as-is", error);
+    onProgress?.([{ index: 0, label: 'Audio completo', status: 'processing' }]);
+    const result = await provider.transcribe(await blobToBase64(blob), mimeType, signal, transcription);
+    onProgress?.([{ index: 0, label: 'Audio completo', status: 'done' }]);
+    const segments = applyGlossary(result.segments, transcription.glossary);
+    return { ...result, segments, text: segmentsToText(segments) };
+  }
+
+  const { samples, offset } = audio;
+  const chunks = planAudioChunks(samples, CHUNK_SAMPLE_RATE);
+  let progress: ChunkProgress[] = chunks.map(chunk => ({
+    index: chunk.index,
+    label: `${formatTime(chunk.start)} - ${formatTime(chunk.end)}`,
+    status: 'pending',
+  }));
+  onProgress?.(progress);
+
+  const updateStatus = (index: number, status: ChunkProgress['status']) => {
+    progress = progress.map(p => (p.index === index ? { ...p, status } : p));
+    onProgress?.(progress);
+  };
+
+  const transcripts = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async chunk => {
+    updateStatus(chunk.index, 'processing');
+    try {
+      // Encoded per window, so a long recording is never held as one big FLAC in memory
+      const chunkAudio = encodeFlac(
+        samples.subarray(Math.floor(chunk.start * CHUNK_SAMPLE_RATE), Math.ceil(chunk.end * CHUNK_SAMPLE_RATE)),
+        CHUNK_SAMPLE_RATE
+      );
+
+      const result = await provider.transcribe(await blobToBase64(chunkAudio), CHUNK_MIME_TYPE, signal, transcription);
+      updateStatus(chunk.index, 'done');
+      return { start: chunk.start, end: chunk.end, segments: applyGlossary(result.segments, transcription.glossary), language: result.detectedLanguage };
+    } catch (error) {
+      updateStatus(chunk.index, isAbortError(error) ? 'pending' : 'error');
+      throw error;
+    }
+  });
+
+  // Shift back by the trimmed lead-in so timestamps line up with the original file
+  const segments = stitchChunkTranscripts(transcripts).map(segment => ({
+    ...segment,
+    start: segment.start + offset,
+    end: segment.end + offset,
+  }));
+  return {
+    segments,
+    text: segmentsToText(segments),
+    detectedLanguage: pickDominantLanguage(transcripts.map(t => t.language)),
+    duration: audio.sourceDuration,
+    timestamp: Date.now(),
+  };
+};
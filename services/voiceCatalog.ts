@@ -0,0 +1,134 @@
+import { SpeechProvider, Voice, VoiceGender } from "../types";
+import { pcmToWavBlob } from "../utils/audioUtils";
+
+export interface TtsLanguage {
+  code: string; // BCP 47 tag
+  label: string;
+}
+
+// Languages the Gemini TTS models speak; every prebuilt voice supports all of them
+export const TTS_LANGUAGES: TtsLanguage[] = [
+  { code: 'es-US', label: 'Español (Latinoamérica)' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-IN', label: 'English (India)' },
+  { code: 'pt-BR', label: 'Português (Brasil)' },
+  { code: 'fr-FR', label: 'Français' },
+  { code: 'de-DE', label: 'Deutsch' },
+  { code: 'it-IT', label: 'Italiano' },
+  { code: 'nl-NL', label: 'Nederlands' },
+  { code: 'pl-PL', label: 'Polski' },
+  { code: 'ro-RO', label: 'Română' },
+  { code: 'ru-RU', label: 'Русский' },
+  { code: 'uk-UA', label: 'Українська' },
+  { code: 'tr-TR', label: 'Türkçe' },
+  { code: 'ar-EG', label: 'العربية (Egipto)' },
+  { code: 'hi-IN', label: 'हिन्दी' },
+  { code: 'bn-BD', label: 'বাংলা' },
+  { code: 'mr-IN', label: 'मराठी' },
+  { code: 'ta-IN', label: 'தமிழ்' },
+  { code: 'te-IN', label: 'తెలుగు' },
+  { code: 'th-TH', label: 'ไทย' },
+  { code: 'vi-VN', label: 'Tiếng Việt' },
+  { code: 'id-ID', label: 'Bahasa Indonesia' },
+  { code: 'ja-JP', label: '日本語' },
+  { code: 'ko-KR', label: '한국어' },
+];
+
+const ALL_LANGUAGES = TTS_LANGUAGES.map(language => language.code);
+
+const voice = (id: string, gender: VoiceGender, styles: string[], name: string = id): Voice => ({
+  id,
+  name,
+  gender,
+  styles,
+  languages: ALL_LANGUAGES,
+});
+
+/**
+ * Every prebuilt Gemini TTS voice. Style tags follow Google's own one-word descriptions.
+ * Kore and Zephyr keep the display names older history items were saved with.
+ */
+export const VOICE_CATALOG: Voice[] = [
+  voice('Kore', 'Female', ['Firme'], 'Elena (Natural)'),
+  voice('Zephyr', 'Female', ['Brillante'], 'Sofia (Calmada)'),
+  voice('Puck', 'Male', ['Animada']),
+  voice('Charon', 'Male', ['Informativa']),
+  voice('Fenrir', 'Male', ['Enérgica']),
+  voice('Leda', 'Female', ['Juvenil']),
+  voice('Orus', 'Male', ['Firme']),
+  voice('Aoede', 'Female', ['Ligera']),
+  voice('Callirrhoe', 'Female', ['Relajada']),
+  voice('Autonoe', 'Female', ['Brillante']),
+  voice('Enceladus', 'Male', ['Susurrante']),
+  voice('Iapetus', 'Male', ['Clara']),
+  voice('Umbriel', 'Male', ['Relajada']),
+  voice('Algieba', 'Male', ['Suave']),
+  voice('Despina', 'Female', ['Suave']),
+  voice('Erinome', 'Female', ['Clara']),
+  voice('Algenib', 'Male', ['Grave']),
+  voice('Rasalgethi', 'Male', ['Informativa']),
+  voice('Laomedeia', 'Female', ['Animada']),
+  voice('Achernar', 'Female', ['Suave']),
+  voice('Alnilam', 'Male', ['Firme']),
+  voice('Schedar', 'Male', ['Equilibrada']),
+  voice('Gacrux', 'Female', ['Madura']),
+  voice('Pulcherrima', 'Female', ['Directa']),
+  voice('Achird', 'Male', ['Amigable']),
+  voice('Zubenelgenubi', 'Male', ['Casual']),
+  voice('Vindemiatrix', 'Female', ['Amable']),
+  voice('Sadachbia', 'Male', ['Vivaz']),
+  voice('Sadaltager', 'Male', ['Experta']),
+  voice('Sulafat', 'Female', ['Cálida']),
+];
+
+export const VOICE_GENDER_LABELS: Record<VoiceGender, string> = {
+  Female: 'Femenina',
+  Male: 'Masculina',
+  Neutral: 'Neutra',
+};
+
+export interface VoiceFilter {
+  gender?: VoiceGender;
+  style?: string;
+  language?: string;
+}
+
+/**
+ * All style tags used in the catalog, sorted for display.
+ */
+export const getVoiceStyles = (): string[] => {
+  return Array.from(new Set(VOICE_CATALOG.flatMap(v => v.styles))).sort((a, b) => a.localeCompare(b));
+};
+
+export const findVoice = (id: string): Voice | undefined => VOICE_CATALOG.find(v => v.id === id);
+
+/**
+ * Returns the voices matching every filter that is set.
+ */
+export const filterVoices = (voices: Voice[], filter: VoiceFilter): Voice[] => {
+  return voices.filter(v =>
+    (!filter.gender || v.gender === filter.gender) &&
+    (!filter.style || v.styles.includes(filter.style)) &&
+    (!filter.language || v.languages.includes(filter.language))
+  );
+};
+
+const PREVIEW_TEXT = "Hola, así suena mi voz. Puedo leer tus textos, artículos y guiones.";
+
+// One sample per voice for the lifetime of the page; failed requests are dropped so they can be retried
+const previewCache = new Map<string, Promise<string>>();
+
+/**
+ * Returns an object URL with a short sample of the voice, synthesizing it only the first
+ * time each voice is previewed.
+ */
+export const getVoicePreviewUrl = (provider: SpeechProvider, voiceId: string): Promise<string> => {
+  const key = `${provider.id}:${voiceId}`;
+  let preview = previewCache.get(key);
+  if (!preview) {
+    preview = provider.synthesize(PREVIEW_TEXT, voiceId).then(base64Audio => URL.createObjectURL(pcmToWavBlob(base64Audio)));
+    preview.catch(() => previewCache.delete(key));
+    previewCache.set(key, preview);
+  }
+  return preview;
+};
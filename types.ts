@@ -1,9 +1,71 @@
-export interface TranscriptionResult {
+export interface TranscriptSegment {
+  start: number; // Seconds from the beginning of the audio
+  end: number; // Seconds from the beginning of the audio
+  speaker: string; // Speaker label as returned by the model (e.g., 'Speaker 1')
   text: string;
-  detectedLanguage?: string;
+}
+
+export interface ActionItem {
+  task: string;
+  owner?: string; // Person the transcript assigns the task to, if anyone
+}
+
+export interface TranscriptChapter {
+  start: number; // Seconds from the beginning of the audio
+  title: string;
+}
+
+export interface TranscriptTranslation {
+  language: string; // BCP 47 tag of the translation
+  text: string; // "Speaker: text" lines, like TranscriptionResult.text
+}
+
+// Post-processing actions that can be run on a finished transcript
+export type TranscriptAction = 'summary' | 'actionItems' | 'chapters' | 'keywords' | 'translation';
+
+export interface TranscriptInsights {
+  summary?: string;
+  actionItems?: ActionItem[];
+  chapters?: TranscriptChapter[];
+  keywords?: string[];
+  translation?: TranscriptTranslation;
+}
+
+export interface TranscriptionResult {
+  segments: TranscriptSegment[];
+  text: string; // Plain text rendering of the segments
+  detectedLanguage?: string; // BCP 47 tag, when language detection was requested
+  duration?: number; // Length of the source audio in seconds, when known
+  insights?: TranscriptInsights; // Results of the post-processing actions run so far
   timestamp: number;
 }
 
+export interface TranscriptionHistoryItem extends TranscriptionResult {
+  id: string;
+  source: string; // Uploaded file name, or 'microphone' for recordings
+  mimeType: string;
+  audioUrl?: string; // Object URL for the stored source audio, if it was saved
+}
+
+export type ChunkStatus = 'pending' | 'processing' | 'done' | 'error';
+
+export interface ChunkProgress {
+  index: number;
+  label: string; // Short description of the chunk (e.g., its time range)
+  status: ChunkStatus;
+}
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  mimeType: string;
+  status: BatchItemStatus;
+  result?: TranscriptionHistoryItem; // Already saved to history
+  error?: string; // User-facing message for failed items
+}
+
 export enum RecordingState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING',
@@ -12,27 +74,128 @@ export enum RecordingState {
   ERROR = 'ERROR'
 }
 
+// Batch transcribes once recording stops; live transcribes rolling windows while recording
+export type TranscriptionMode = 'batch' | 'live';
+
 export enum AppMode {
   TRANSCRIPTION = 'TRANSCRIPTION',
-  TEXT_TO_SPEECH = 'TEXT_TO_SPEECH'
+  TEXT_TO_SPEECH = 'TEXT_TO_SPEECH',
+  HISTORY = 'HISTORY'
 }
 
 export interface AudioVisualizerProps {
   isRecording: boolean;
-  audioData?: Uint8Array;
+  analyser?: AnalyserNode | null; // Microphone analyser; without it a placeholder animation is shown
+}
+
+export interface AudioRegion {
+  start: number; // Seconds
+  end: number; // Seconds
 }
 
+export type VoiceGender = 'Female' | 'Male' | 'Neutral';
+
 export interface Voice {
   id: string; // Gemini API voice name (e.g., 'Kore')
   name: string; // Display name (e.g., 'Elena')
-  gender: 'Female' | 'Male';
+  gender: VoiceGender;
+  styles: string[]; // Tone tags shown in the selector (e.g., 'Firme', 'Cálida')
+  languages: string[]; // BCP 47 tags the voice can speak
+}
+
+export interface SpeakerVoice {
+  speaker: string; // Name used in the dialogue script (e.g., 'Ana')
+  voiceId: string; // Gemini API voice name
+}
+
+export type SpeechPace = 'very-slow' | 'slow' | 'normal' | 'fast' | 'very-fast';
+export type SpeechTone = 'neutral' | 'cheerful' | 'serious' | 'calm' | 'warm' | 'excited' | 'sad' | 'whispering';
+export type SpeechEmphasis = 'subtle' | 'normal' | 'strong';
+
+export interface SpeechStyle {
+  pace: SpeechPace;
+  tone: SpeechTone;
+  emphasis: SpeechEmphasis;
+  notes: string; // Free-form director notes passed to the model as written
+}
+
+export interface SpeechStylePreset {
+  id: string;
+  name: string;
+  style: SpeechStyle;
+}
+
+export interface SynthesisOptions {
+  style?: SpeechStyle; // Sent to the model as a style prompt ahead of the text
+  language?: string; // BCP 47 tag of the text; the model detects it when absent
+  emphasis?: string[]; // Words or phrases of the text to stress, from *emphasis* markup
+}
+
+export interface PronunciationEntry {
+  word: string; // As written in the text (e.g., 'Nguyen')
+  say: string; // Phonetic respelling read in its place (e.g., 'Nuyen')
+}
+
+export interface GlossaryTerm {
+  term: string; // Spelling the transcript should use (e.g., 'Gemini')
+  phonetic?: string; // How it sounds when spoken (e.g., 'yémini')
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  context: string; // Free-text description of the domain, given to the model as written
+  terms: GlossaryTerm[];
+}
+
+// 'clean' drops fillers, false starts and repetitions; 'verbatim' keeps everything as spoken
+export type TranscriptStyle = 'clean' | 'verbatim';
+
+export interface TranscriptOutputOptions {
+  style: TranscriptStyle;
+  diarize: boolean; // Label each speaker; with it off every segment is 'Speaker 1'
+  speakerCount?: number; // Expected number of speakers when diarizing; the model decides when absent
+  eventTags: boolean; // Mark non-speech sounds inline, e.g. [laughter] or [music]
+  maskProfanity: boolean; // Replace swear words with asterisks after the first letter
+}
+
+export interface TranscriptionOptions {
+  detectLanguage?: boolean; // Also report the main spoken language as detectedLanguage
+  glossary?: Glossary; // Domain terms given to the model as context
+  output?: TranscriptOutputOptions; // How the text is written; DEFAULT_TRANSCRIPT_OUTPUT when absent
 }
 
 export interface HistoryItem {
   id: string;
   text: string;
-  audioUrl: string;
+  audioUrl?: string; // Object URL for the stored audio; only valid for the current page
   voiceName: string;
   timestamp: number;
   duration?: number;
+  speakers?: SpeakerVoice[]; // Set for dialogues, which use one voice per speaker
+  style?: SpeechStyle; // Delivery the audio was generated with; absent for older items
+  language?: string; // BCP 47 tag the text was synthesized as
+}
+
+export interface SpeechProvider {
+  id: string;
+  name: string; // Display name (e.g., 'Google Gemini')
+  /** Transcribes base64 encoded audio into timestamped segments. */
+  transcribe: (base64Audio: string, mimeType: string, signal?: AbortSignal, options?: TranscriptionOptions) => Promise<TranscriptionResult>;
+  /**
+   * Runs one post-processing action on a transcript and returns only the insight it produced.
+   * `targetLanguage` (BCP 47) is required for 'translation'.
+   */
+  analyzeTranscript: (action: TranscriptAction, segments: TranscriptSegment[], signal?: AbortSignal, targetLanguage?: string) => Promise<TranscriptInsights>;
+  /** Rewrites text so it reads naturally when spoken, in `language` when given. */
+  improveText: (text: string, signal?: AbortSignal, language?: string) => Promise<string>;
+  /** Synthesizes speech, returning base64 encoded 24kHz mono 16-bit PCM. */
+  synthesize: (text: string, voiceName: string, signal?: AbortSignal, options?: SynthesisOptions) => Promise<string>;
+  /**
+   * Synthesizes a "Name: text" script as one conversation, in the same format as
+   * `synthesize`. Optional; dialogues are otherwise generated line by line.
+   */
+  synthesizeDialogue?: (script: string, speakers: SpeakerVoice[], signal?: AbortSignal, options?: SynthesisOptions) => Promise<string>;
+  /** Most speakers `synthesizeDialogue` accepts in one request. */
+  maxDialogueSpeakers?: number;
 }
\ No newline at end of file
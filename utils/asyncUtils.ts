@@ -0,0 +1,94 @@
+/**
+ * Maps over items with at most `limit` workers running at once, preserving result order.
+ * Rejects with the first error; workers already running are left to settle on their own
+ * and no further items are started.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const run = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+  await Promise.all(workers);
+  return results;
+};
+
+export const createAbortError = (): DOMException => new DOMException('The operation was aborted.', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon as `signal` aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  /** Minimum wait requested by the server for this error, if any. */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /** Stops retrying (and waiting) once aborted. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  shouldRetry: () => true,
+};
+
+/**
+ * Runs `fn` until it succeeds, retrying with exponential backoff and full jitter while
+ * `shouldRetry` accepts the error. The last error is rethrown once retries run out.
+ */
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, shouldRetry, getRetryAfterMs, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(Math.max(Math.random() * backoff, getRetryAfterMs?.(error) ?? 0), signal);
+    }
+  }
+};
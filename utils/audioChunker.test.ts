@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { planAudioChunks } from './audioChunker';
+
+const SAMPLE_RATE = 1000;
+const OPTIONS = { chunkDuration: 10, overlap: 2, silenceSearch: 6 };
+
+// Constant-energy noise, with optional silent ranges given in seconds
+const noise = (seconds: number, silences: [number, number][] = []): Float32Array => {
+  const samples = new Float32Array(seconds * SAMPLE_RATE).map((_, i) => (i % 2 ? 0.5 : -0.5));
+  silences.forEach(([from, to]) => samples.fill(0, from * SAMPLE_RATE, to * SAMPLE_RATE));
+  return samples;
+};
+
+describe('planAudioChunks', () => {
+  it('keeps audio up to the chunk length in one window', () => {
+    expect(planAudioChunks(noise(10), SAMPLE_RATE, OPTIONS)).toEqual([{ index: 0, start: 0, end: 10 }]);
+  });
+
+  it('cuts in the middle of a silence', () => {
+    const [first, second] = planAudioChunks(noise(15, [[5, 5.2]]), SAMPLE_RATE, OPTIONS);
+    const cut = first.end - OPTIONS.overlap / 2;
+    expect(cut).toBeGreaterThan(5);
+    expect(cut).toBeLessThan(5.2);
+    expect(second.start).toBeCloseTo(cut - OPTIONS.overlap / 2);
+  });
+
+  it('cuts as late as the chunk length allows when there is no silence', () => {
+    const chunks = planAudioChunks(noise(35), SAMPLE_RATE, OPTIONS);
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk, i) => {
+      expect(chunk.index).toBe(i);
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(OPTIONS.chunkDuration);
+      if (i < chunks.length - 1) {
+        expect(chunk.end - chunk.start).toBeGreaterThan(OPTIONS.chunkDuration - 0.1);
+        expect(chunk.end - chunks[i + 1].start).toBeCloseTo(OPTIONS.overlap);
+      }
+    });
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(35);
+  });
+
+  it('never leaves a final window shorter than the overlap', () => {
+    const chunks = planAudioChunks(noise(10.5), SAMPLE_RATE, { ...OPTIONS, overlap: 4 });
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].end).toBe(10.5);
+    expect(chunks[1].end - chunks[1].start).toBeGreaterThanOrEqual(4);
+  });
+});
@@ -0,0 +1,73 @@
+export interface AudioChunk {
+  index: number;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+export interface ChunkPlanOptions {
+  chunkDuration: number; // Target length of each window in seconds
+  overlap: number; // Audio shared by consecutive windows, centered on the cut point
+  silenceSearch: number; // How far back from the target length to look for a quiet cut point
+}
+
+export const DEFAULT_CHUNK_PLAN: ChunkPlanOptions = {
+  chunkDuration: 240,
+  overlap: 4,
+  silenceSearch: 20,
+};
+
+// RMS analysis frame used when looking for silence
+const FRAME_SECONDS = 0.05;
+
+/**
+ * Returns the center time (in seconds) of the quietest frame between `from` and `to`.
+ * Ties go to the later frame so windows stay as close to the target length as possible.
+ */
+const findQuietestPoint = (samples: Float32Array, sampleRate: number, from: number, to: number): number => {
+  const frameSize = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const firstSample = Math.max(0, Math.floor(from * sampleRate));
+  const lastSample = Math.min(samples.length, Math.floor(to * sampleRate));
+
+  let bestTime = to;
+  let bestEnergy = Infinity;
+
+  for (let offset = firstSample; offset + frameSize <= lastSample; offset += frameSize) {
+    let energy = 0;
+    for (let i = offset; i < offset + frameSize; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (energy <= bestEnergy) {
+      bestEnergy = energy;
+      bestTime = (offset + frameSize / 2) / sampleRate;
+    }
+  }
+
+  return bestTime;
+};
+
+/**
+ * Splits mono audio into overlapping windows, cutting at the quietest point near each
+ * target boundary. Consecutive windows share `overlap` seconds centered on the cut.
+ */
+export const planAudioChunks = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: ChunkPlanOptions = DEFAULT_CHUNK_PLAN
+): AudioChunk[] => {
+  const total = samples.length / sampleRate;
+  const halfOverlap = options.overlap / 2;
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (total - start > options.chunkDuration) {
+    const target = start + options.chunkDuration - halfOverlap;
+    const searchFrom = Math.max(start + options.overlap, target - options.silenceSearch);
+    const cut = findQuietestPoint(samples, sampleRate, searchFrom, target);
+
+    chunks.push({ index: chunks.length, start, end: cut + halfOverlap });
+    start = cut - halfOverlap;
+  }
+
+  chunks.push({ index: chunks.length, start, end: total });
+  return chunks;
+};
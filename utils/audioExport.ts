@@ -0,0 +1,75 @@
+import { decodeAudioToMono, floatToWavBlob } from './audioUtils';
+import { encodeFlac } from './flacEncoder';
+import { encodeOggOpus, isOpusEncodingSupported } from './oggOpusEncoder';
+
+export type AudioExportFormat = 'opus' | 'flac' | 'wav';
+
+export interface AudioExportFormatInfo {
+  format: AudioExportFormat;
+  label: string;
+  extension: string;
+}
+
+export const AUDIO_EXPORT_FORMATS: AudioExportFormatInfo[] = [
+  { format: 'opus', label: 'Opus (comprimido)', extension: 'ogg' },
+  { format: 'flac', label: 'FLAC (sin pérdida)', extension: 'flac' },
+  { format: 'wav', label: 'WAV (sin comprimir)', extension: 'wav' },
+];
+
+// null keeps the rate the audio was generated at
+export const EXPORT_SAMPLE_RATES: (number | null)[] = [null, 44100, 48000];
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+}
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  sampleRate: number | null; // Target rate, or null for the source rate
+  tags?: AudioTags; // Written to FLAC and Opus; WAV files are left untagged
+}
+
+const TITLE_WORDS = 8;
+
+/**
+ * Builds a title tag from the first words of a text.
+ */
+export const titleFromText = (text: string): string => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const title = words.slice(0, TITLE_WORDS).join(' ');
+  return words.length > TITLE_WORDS ? `${title}…` : title;
+};
+
+/**
+ * Returns the export formats this browser can produce. FLAC and WAV are encoded in
+ * JavaScript; Opus needs WebCodecs.
+ */
+export const getSupportedExportFormats = async (): Promise<AudioExportFormatInfo[]> => {
+  const opusSupported = await isOpusEncodingSupported();
+  return AUDIO_EXPORT_FORMATS.filter(info => info.format !== 'opus' || opusSupported);
+};
+
+/**
+ * Re-encodes audio for download, resampling it on the way if requested.
+ * @param audio - Any browser-decodable audio, typically a generated WAV.
+ * @param sourceSampleRate - The rate of `audio`, used when no target rate is given.
+ * @param options - Format, target rate and tags.
+ */
+export const exportAudio = async (audio: Blob, sourceSampleRate: number, options: AudioExportOptions): Promise<Blob> => {
+  const sampleRate = options.sampleRate ?? sourceSampleRate;
+  const tags: Record<string, string> = {
+    title: options.tags?.title ?? '',
+    artist: options.tags?.artist ?? '',
+  };
+
+  switch (options.format) {
+    case 'opus':
+      // Opus only encodes at 48kHz; the requested rate is recorded for players that resample back
+      return encodeOggOpus(await decodeAudioToMono(audio, 48000), sampleRate, tags);
+    case 'flac':
+      return encodeFlac(await decodeAudioToMono(audio, sampleRate), sampleRate, tags);
+    case 'wav':
+      return floatToWavBlob(await decodeAudioToMono(audio, sampleRate), sampleRate);
+  }
+};
@@ -19,10 +19,18 @@ export const formatTime = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
+export const formatBytes = (bytes: number): string => {
+  if (!isFinite(bytes) || bytes <= 0) return "0 B";
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+  const value = bytes / Math.pow(1024, exponent);
+  return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
 /**
  * Decodes base64 string to a Uint8Array.
  */
-const base64ToUint8Array = (base64: string): Uint8Array => {
+export const base64ToUint8Array = (base64: string): Uint8Array => {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
@@ -32,6 +40,19 @@ const base64ToUint8Array = (base64: string): Uint8Array => {
   return bytes;
 };
 
+/**
+ * Encodes a Uint8Array as a base64 string.
+ */
+export const uint8ArrayToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Converting in slices keeps String.fromCharCode under the engine's argument limit
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+};
+
 /**
  * Creates a WAV file header for the given PCM data.
  */
@@ -68,12 +89,9 @@ const writeString = (view: DataView, offset: number, string: string) => {
 };
 
 /**
- * Converts raw PCM base64 string (from Gemini) to a WAV Blob.
- * Gemini 2.5 Flash TTS typically returns 24kHz, 1 channel, 16-bit PCM.
+ * Wraps raw 16-bit mono PCM bytes in a WAV container.
  */
-export const pcmToWavBlob = (base64Audio: string, sampleRate: number = 24000): Blob => {
-  const pcmData = base64ToUint8Array(base64Audio);
-  
+export const pcmBytesToWavBlob = (pcmData: Uint8Array, sampleRate: number = 24000): Blob => {
   // Create WAV header
   // 1 channel (mono), 16-bit depth
   const header = createWavHeader(pcmData.length, sampleRate, 1, 16);
@@ -86,6 +104,272 @@ export const pcmToWavBlob = (base64Audio: string, sampleRate: number = 24000): B
   return new Blob([wavFile], { type: 'audio/wav' });
 };
 
+/**
+ * Converts raw PCM base64 string (from Gemini) to a WAV Blob.
+ * Gemini 2.5 Flash TTS typically returns 24kHz, 1 channel, 16-bit PCM.
+ */
+export const pcmToWavBlob = (base64Audio: string, sampleRate: number = 24000): Blob => {
+  return pcmBytesToWavBlob(base64ToUint8Array(base64Audio), sampleRate);
+};
+
+/**
+ * Creates silent 16-bit mono PCM of the given length.
+ */
+export const createSilence = (milliseconds: number, sampleRate: number = 24000): Uint8Array => {
+  const samples = Math.round((milliseconds / 1000) * sampleRate);
+  return new Uint8Array(samples * 2);
+};
+
+// Samples quieter than this (about -50 dBFS) count as silence when trimming
+const SILENCE_THRESHOLD = 100;
+
+/**
+ * Removes the silence at the start and/or end of 16-bit mono PCM.
+ */
+export const trimPcmSilence = (pcm: Uint8Array, { start = true, end = true } = {}): Uint8Array => {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const isSilent = (sample: number) => Math.abs(view.getInt16(sample * 2, true)) < SILENCE_THRESHOLD;
+  let first = 0;
+  let last = Math.floor(pcm.length / 2);
+  if (start) while (first < last && isSilent(first)) first++;
+  if (end) while (last > first && isSilent(last - 1)) last--;
+  return pcm.subarray(first * 2, last * 2);
+};
+
+/**
+ * Concatenates PCM byte buffers into a single buffer.
+ */
+export const concatPcm = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+/**
+ * Joins encoded file parts (headers, frames, pages) into a single Blob.
+ */
+export const bytesToBlob = (parts: Uint8Array[], type: string): Blob => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return new Blob([bytes], { type });
+};
+
+/**
+ * Encodes mono float samples (-1..1) as a 16-bit PCM WAV Blob.
+ */
+export const floatToWavBlob = (samples: Float32Array, sampleRate: number): Blob => {
+  const pcmData = new Uint8Array(samples.length * 2);
+  const view = new DataView(pcmData.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return pcmBytesToWavBlob(pcmData, sampleRate);
+};
+
+/**
+ * Decodes any browser-decodable audio Blob and downmixes it to mono at the given sample rate.
+ * Decoding through an OfflineAudioContext resamples in the same pass, which keeps memory
+ * usage reasonable for hour-long recordings.
+ */
+export const decodeAudioToMono = async (blob: Blob, sampleRate: number = 16000): Promise<Float32Array> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const audioBuffer = await context.decodeAudioData(arrayBuffer);
+
+  if (audioBuffer.numberOfChannels === 1) {
+    return audioBuffer.getChannelData(0);
+  }
+
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+// Formats Gemini accepts as inline audio; anything else has to be converted first
+const GEMINI_AUDIO_MIME_TYPES = ['audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/aac', 'audio/ogg', 'audio/flac', 'audio/webm'];
+
+// Used when the browser reports no type for a file, which happens for many less common containers
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  m4a: 'audio/aac',
+  aac: 'audio/aac',
+  aif: 'audio/aiff',
+  aiff: 'audio/aiff',
+  weba: 'audio/webm',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+};
+
+/**
+ * Returns the MIME type of an uploaded file, falling back to its extension when the
+ * browser leaves `type` empty. Returns an empty string for files that don't look like media.
+ */
+export const resolveMediaMimeType = (file: File): string => {
+  if (file.type.startsWith('audio/') || file.type.startsWith('video/')) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_MIME_TYPES[extension] ?? '';
+};
+
+/**
+ * True when Gemini accepts the MIME type as inline audio without conversion.
+ */
+export const isSupportedAudioMimeType = (mimeType: string): boolean => {
+  return GEMINI_AUDIO_MIME_TYPES.includes(mimeType.split(';')[0].trim().toLowerCase());
+};
+
+export interface PreprocessOptions {
+  trimSilence: boolean; // Drop leading and trailing silence
+  normalize: boolean; // Bring quiet recordings up to a consistent loudness
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  trimSilence: true,
+  normalize: true,
+};
+
+export interface PreprocessedAudio {
+  samples: Float32Array; // Mono samples after trimming and normalization
+  sampleRate: number;
+  offset: number; // Seconds trimmed from the start; add to timestamps to map back to the original
+  sourceDuration: number; // Length of the original audio in seconds
+}
+
+const SILENCE_FRAME_SECONDS = 0.05;
+const SILENCE_THRESHOLD_DB = -45;
+const SILENCE_PADDING_SECONDS = 0.2; // Kept around the trimmed audio so the first and last words aren't clipped
+const TARGET_RMS_DB = -20;
+const PEAK_CEILING = 0.95;
+const MAX_GAIN_DB = 20; // Higher gain mostly amplifies background noise
+
+/**
+ * Finds the sample range between the first and last frame louder than the silence
+ * threshold, padded on both sides. Audio that is silent throughout is returned whole so
+ * the model can still report that there's no speech.
+ */
+export const findSoundRange = (samples: Float32Array, sampleRate: number): { start: number; end: number } => {
+  const frameSize = Math.max(1, Math.round(SILENCE_FRAME_SECONDS * sampleRate));
+  const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+  let first = -1;
+  let last = -1;
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    if (measureLevels(samples.subarray(offset, offset + frameSize)).rms >= threshold) {
+      if (first < 0) first = offset;
+      last = Math.min(samples.length, offset + frameSize);
+    }
+  }
+  if (first < 0) return { start: 0, end: samples.length };
+
+  const padding = Math.round(SILENCE_PADDING_SECONDS * sampleRate);
+  return { start: Math.max(0, first - padding), end: Math.min(samples.length, last + padding) };
+};
+
+/**
+ * Scales samples in place towards the target RMS level without letting peaks clip.
+ */
+export const normalizeLoudness = (samples: Float32Array): void => {
+  const { peak, rms } = measureLevels(samples);
+  if (rms === 0) return;
+  const gain = Math.min(
+    Math.pow(10, (TARGET_RMS_DB - amplitudeToDb(rms)) / 20),
+    PEAK_CEILING / peak,
+    Math.pow(10, MAX_GAIN_DB / 20)
+  );
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] *= gain;
+  }
+};
+
+/**
+ * Prepares any browser-decodable file, including the audio track of a video, for
+ * transcription: decodes it to 16kHz mono and optionally trims silence and normalizes
+ * loudness. Encoding is left to the caller, which only encodes the windows it uploads.
+ * @param blob - The recorded or uploaded file.
+ * @param options - Which optional steps to apply.
+ * @param sampleRate - The output rate; 16kHz is all speech recognition needs.
+ */
+export const preprocessAudio = async (
+  blob: Blob,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+  sampleRate: number = 16000
+): Promise<PreprocessedAudio> => {
+  const decoded = await decodeAudioToMono(blob, sampleRate);
+  const range = options.trimSilence ? findSoundRange(decoded, sampleRate) : { start: 0, end: decoded.length };
+  // Copy so normalization never writes into the decoder's buffer
+  const samples = decoded.slice(range.start, range.end);
+  if (options.normalize) normalizeLoudness(samples);
+
+  return {
+    samples,
+    sampleRate,
+    offset: range.start / sampleRate,
+    sourceDuration: decoded.length / sampleRate,
+  };
+};
+
+/**
+ * Reduces samples to `bucketCount` peak values (largest absolute sample per bucket) for
+ * drawing an overview waveform.
+ */
+export const computeWaveformPeaks = (samples: Float32Array, bucketCount: number): Float32Array => {
+  const peaks = new Float32Array(bucketCount);
+  const bucketSize = samples.length / bucketCount;
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const from = Math.floor(bucket * bucketSize);
+    const to = Math.min(samples.length, Math.floor((bucket + 1) * bucketSize));
+    let peak = 0;
+    for (let i = from; i < to; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bucket] = peak;
+  }
+  return peaks;
+};
+
+export interface AudioLevels {
+  peak: number; // Largest absolute sample, 0..1
+  rms: number; // Root mean square of the samples, 0..1
+}
+
+export const measureLevels = (samples: Float32Array): AudioLevels => {
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+    sumSquares += value * value;
+  }
+  return { peak, rms: samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0 };
+};
+
+/**
+ * Converts a linear amplitude (1 = full scale) to dBFS. Silence maps to -Infinity.
+ */
+export const amplitudeToDb = (amplitude: number): number => 20 * Math.log10(amplitude);
+
 /**
  * Plays raw PCM audio data directly (legacy method, preferred use is pcmToWavBlob -> Audio element).
  */
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { assignSpeakerVoices, formatDialogueScript, getDialogueSpeakers, parseDialogueScript } from './dialogueUtils';
+
+describe('parseDialogueScript', () => {
+  it('reads one turn per "Name: text" line and joins continuation lines', () => {
+    expect(parseDialogueScript('Ana: Hola.\nsigo hablando\nLuis:   Buenas.')).toEqual([
+      { speaker: 'Ana', text: 'Hola. sigo hablando' },
+      { speaker: 'Luis', text: 'Buenas.' },
+    ]);
+  });
+
+  it('accepts names of up to three words, with accents or a number', () => {
+    expect(getDialogueSpeakers(parseDialogueScript('María José: Hola\nDr. Núñez: Buenas\nSpeaker 2: Qué tal\nJuan de Dios: Bien'))).toEqual([
+      'María José', 'Dr. Núñez', 'Speaker 2', 'Juan de Dios',
+    ]);
+  });
+
+  it('treats times, URLs and notes as text, not speakers', () => {
+    const script = 'Ana: Quedamos mañana\n10:30 nos vemos en la puerta\nhttps://example.com/mapa\nNota: trae el portátil';
+    expect(parseDialogueScript(script)).toEqual([
+      { speaker: 'Ana', text: 'Quedamos mañana 10:30 nos vemos en la puerta https://example.com/mapa Nota: trae el portátil' },
+    ]);
+  });
+
+  it('treats long prefixes before a colon as text', () => {
+    expect(parseDialogueScript('Ana: Hola\nLo que dijo el director general: nada')).toEqual([
+      { speaker: 'Ana', text: 'Hola Lo que dijo el director general: nada' },
+    ]);
+  });
+
+  it('ignores text before the first speaker and turns without text', () => {
+    expect(parseDialogueScript('Título del episodio\nAna:\nLuis: Hola')).toEqual([{ speaker: 'Luis', text: 'Hola' }]);
+  });
+});
+
+describe('formatDialogueScript', () => {
+  it('writes one "Name: text" turn per line', () => {
+    expect(formatDialogueScript([{ speaker: 'Ana', text: 'Hola' }, { speaker: 'Luis', text: 'Adiós' }])).toBe('Ana: Hola\nLuis: Adiós');
+  });
+});
+
+describe('assignSpeakerVoices', () => {
+  it('keeps existing assignments and gives new speakers the voices in turn', () => {
+    expect(assignSpeakerVoices(['Ana', 'Luis', 'Eva'], ['v1', 'v2'], [{ speaker: 'Luis', voiceId: 'v9' }])).toEqual([
+      { speaker: 'Ana', voiceId: 'v1' },
+      { speaker: 'Luis', voiceId: 'v9' },
+      { speaker: 'Eva', voiceId: 'v1' },
+    ]);
+  });
+});
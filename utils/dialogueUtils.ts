@@ -0,0 +1,66 @@
+import { SpeakerVoice } from '../types';
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// "Ana: Hola" — a name of up to three words starting with a letter, then a colon. Times
+// ("10:30"), URLs ("https://...") and longer prefixes are ordinary text with a colon.
+const SPEAKER_LINE = /^\s*(\p{L}[\p{L}\p{M}\p{N}.'’-]*(?: [\p{L}\p{M}\p{N}.'’-]+){0,2})\s*:(?!\/\/)\s*(.*)$/u;
+const MAX_SPEAKER_NAME_LENGTH = 30;
+
+// Labels that introduce a note rather than a turn
+const NON_SPEAKER_LABELS = new Set([
+  'nota', 'notas', 'ps', 'pd', 'ejemplo', 'importante', 'atención', 'aviso', 'fuente', 'fecha', 'hora',
+  'note', 'example', 'important', 'warning', 'source', 'date', 'time',
+]);
+
+const matchSpeakerLine = (line: string): DialogueLine | null => {
+  const match = line.match(SPEAKER_LINE);
+  if (!match || match[1].length > MAX_SPEAKER_NAME_LENGTH || NON_SPEAKER_LABELS.has(match[1].toLowerCase())) return null;
+  return { speaker: match[1], text: match[2].trim() };
+};
+
+/**
+ * Parses a script where each turn starts with "Name: ". Lines without a prefix continue
+ * the previous turn; text before the first named speaker is ignored.
+ */
+export const parseDialogueScript = (script: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  script.split('\n').forEach(raw => {
+    const turn = matchSpeakerLine(raw);
+    if (turn) {
+      lines.push(turn);
+      return;
+    }
+    const last = lines[lines.length - 1];
+    if (last && raw.trim()) last.text = `${last.text} ${raw.trim()}`.trim();
+  });
+  return lines.filter(line => line.text);
+};
+
+/**
+ * Returns each speaker once, in order of first appearance.
+ */
+export const getDialogueSpeakers = (lines: DialogueLine[]): string[] => {
+  return Array.from(new Set(lines.map(line => line.speaker)));
+};
+
+/**
+ * Serializes lines back to "Name: text" form, one turn per line, as the multi-speaker
+ * model expects them.
+ */
+export const formatDialogueScript = (lines: DialogueLine[]): string => {
+  return lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+};
+
+/**
+ * Pairs every speaker with a voice, keeping existing assignments and giving new speakers
+ * the voices in turn so consecutive speakers sound different.
+ */
+export const assignSpeakerVoices = (speakers: string[], voiceIds: string[], current: SpeakerVoice[] = []): SpeakerVoice[] => {
+  return speakers.map((speaker, i) => (
+    current.find(entry => entry.speaker === speaker) ?? { speaker, voiceId: voiceIds[i % voiceIds.length] }
+  ));
+};
@@ -0,0 +1,280 @@
+/**
+ * Minimal FLAC encoder for mono 16-bit audio: fixed-blocksize frames with constant,
+ * verbatim or fixed-predictor subframes and single-partition Rice residuals. It compresses
+ * speech to roughly half the size of WAV without any native codec support.
+ */
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code
+const VENDOR = 'audioai-studio';
+
+// Frame header codes for common rates; other rates are read from STREAMINFO (code 0)
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100, 16000: 0b0101, 22050: 0b0110, 24000: 0b0111, 32000: 0b1000,
+  44100: 0b1001, 48000: 0b1010, 88200: 0b0001, 96000: 0b1011, 176400: 0b0010, 192000: 0b0011,
+};
+
+const buildCrcTable = (bits: number, polynomial: number): Uint16Array => {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (bits - 8);
+    for (let j = 0; j < 8; j++) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+};
+
+const CRC8_TABLE = buildCrcTable(8, 0x07);
+const CRC16_TABLE = buildCrcTable(16, 0x8005);
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]) & 0xffff;
+  return crc;
+};
+
+const createBitWriter = () => {
+  let buffer = new Uint8Array(1 << 16);
+  let length = 0; // Whole bytes written
+  let current = 0; // Pending bits, most significant first
+  let pendingBits = 0;
+
+  const pushByte = (byte: number) => {
+    if (length === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+    buffer[length++] = byte;
+  };
+
+  // Writes the low `count` bits of `value`; count is at most 24 per call
+  const writeBits = (value: number, count: number) => {
+    current = (current << count) | (value & ((1 << count) - 1));
+    pendingBits += count;
+    while (pendingBits >= 8) {
+      pendingBits -= 8;
+      pushByte((current >>> pendingBits) & 0xff);
+    }
+    current &= (1 << pendingBits) - 1;
+  };
+
+  const writeUnary = (zeros: number) => {
+    for (; zeros >= 24; zeros -= 24) writeBits(0, 24);
+    writeBits(1, zeros + 1);
+  };
+
+  const alignToByte = () => {
+    if (pendingBits > 0) writeBits(0, 8 - pendingBits);
+  };
+
+  // Only valid on a byte boundary
+  const writeBytes = (bytes: Uint8Array) => {
+    bytes.forEach(pushByte);
+  };
+
+  return {
+    writeBits,
+    writeUnary,
+    alignToByte,
+    writeBytes,
+    bytes: () => buffer.subarray(0, length),
+    byteLength: () => length,
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+const toInt16 = (samples: Float32Array): Int32Array => {
+  const ints = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    ints[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+  }
+  return ints;
+};
+
+// Residuals of the fixed polynomial predictors of order 0-4 (FLAC spec, "FIXED" subframe)
+const fixedResiduals = (block: Int32Array, order: number): Int32Array => {
+  const residuals = new Int32Array(block.length - order);
+  for (let i = order; i < block.length; i++) {
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = block[i - 1]; break;
+      case 2: prediction = 2 * block[i - 1] - block[i - 2]; break;
+      case 3: prediction = 3 * block[i - 1] - 3 * block[i - 2] + block[i - 3]; break;
+      case 4: prediction = 4 * block[i - 1] - 6 * block[i - 2] + 4 * block[i - 3] - block[i - 4]; break;
+    }
+    residuals[i - order] = block[i] - prediction;
+  }
+  return residuals;
+};
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Picks the Rice parameter with the smallest encoded size and returns it with that size in
+// bits. The optimum sits next to log2 of the mean residual, so only its neighbours are tried.
+const chooseRiceParameter = (residuals: Int32Array): { parameter: number; bits: number } => {
+  let sum = 0;
+  for (let i = 0; i < residuals.length; i++) sum += zigzag(residuals[i]);
+  const mean = residuals.length > 0 ? sum / residuals.length : 0;
+  const estimate = mean >= 1 ? Math.floor(Math.log2(mean)) : 0;
+
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter++) {
+    let bits = residuals.length * (parameter + 1);
+    for (let i = 0; i < residuals.length; i++) bits += zigzag(residuals[i]) >>> parameter;
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, block: Int32Array) => {
+  if (block.every(sample => sample === block[0])) {
+    writer.writeBits(0b00000000, 8); // Constant
+    writer.writeBits(block[0], BITS_PER_SAMPLE);
+    return;
+  }
+
+  let best: { order: number; residuals: Int32Array; parameter: number; bits: number } | null = null;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, block.length - 1); order++) {
+    const residuals = fixedResiduals(block, order);
+    const { parameter, bits } = chooseRiceParameter(residuals);
+    const total = bits + order * BITS_PER_SAMPLE;
+    if (!best || total < best.bits) best = { order, residuals, parameter, bits: total };
+  }
+
+  if (!best || best.bits >= block.length * BITS_PER_SAMPLE) {
+    writer.writeBits(0b00000010, 8); // Verbatim
+    block.forEach(sample => writer.writeBits(sample, BITS_PER_SAMPLE));
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (best.order << 1), 8); // Fixed, with the predictor order
+  for (let i = 0; i < best.order; i++) writer.writeBits(block[i], BITS_PER_SAMPLE);
+  writer.writeBits(0b00, 2); // Rice coding with 4-bit parameters
+  writer.writeBits(0, 4); // Partition order 0: one partition
+  writer.writeBits(best.parameter, 4);
+  const { parameter } = best;
+  best.residuals.forEach(residual => {
+    const value = zigzag(residual);
+    writer.writeUnary(value >>> parameter);
+    if (parameter > 0) writer.writeBits(value, parameter);
+  });
+};
+
+// Frame numbers use the same variable-length coding as UTF-8
+const writeCodedNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  while (value >= 2 ** (6 + 5 * continuationBytes) && continuationBytes < 6) continuationBytes++;
+  const prefix = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(prefix | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+const writeFrame = (writer: BitWriter, block: Int32Array, frameNumber: number, sampleRate: number) => {
+  const frameStart = writer.byteLength();
+  writer.writeBits(0b11111111111110, 14); // Sync code
+  writer.writeBits(0, 1); // Reserved
+  writer.writeBits(0, 1); // Fixed block size
+  writer.writeBits(0b0111, 4); // Block size stored as 16 bits at the end of the header
+  writer.writeBits(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  writer.writeBits(0b0000, 4); // One channel
+  writer.writeBits(0b100, 3); // 16 bits per sample
+  writer.writeBits(0, 1); // Reserved
+  writeCodedNumber(writer, frameNumber);
+  writer.writeBits(block.length - 1, 16);
+  writer.writeBits(crc8(writer.bytes().subarray(frameStart)), 8);
+
+  writeSubframe(writer, block);
+  writer.alignToByte();
+  writer.writeBits(crc16(writer.bytes().subarray(frameStart)), 16);
+};
+
+const metadataBlockHeader = (type: number, length: number, isLast: boolean): Uint8Array =>
+  new Uint8Array([(isLast ? 0x80 : 0) | type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+
+const encodeStreamInfo = (sampleRate: number, totalSamples: number): Uint8Array => {
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  const writer = createBitWriter();
+  writer.writeBits(blockSize, 16); // Minimum block size
+  writer.writeBits(blockSize, 16); // Maximum block size
+  writer.writeBits(0, 24); // Minimum frame size (unknown)
+  writer.writeBits(0, 24); // Maximum frame size (unknown)
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(0, 3); // Channels - 1
+  writer.writeBits(BITS_PER_SAMPLE - 1, 5);
+  writer.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.writeBits(Math.floor(totalSamples / 2 ** 16) & 0xffff, 16);
+  writer.writeBits(totalSamples & 0xffff, 16);
+  for (let i = 0; i < 16; i++) writer.writeBits(0, 8); // MD5 left unset, which the spec allows
+  return writer.bytes().slice();
+};
+
+/**
+ * Builds a Vorbis comment block (used by both FLAC and Ogg Opus) from tag name/value pairs.
+ */
+export const encodeVorbisComments = (tags: Record<string, string>): Uint8Array => {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode(VENDOR);
+  const comments = Object.entries(tags)
+    .filter(([, value]) => value)
+    .map(([key, value]) => encoder.encode(`${key.toUpperCase()}=${value}`));
+
+  const size = 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  view.setUint32(offset, vendor.length, true);
+  bytes.set(vendor, offset + 4);
+  offset += 4 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  comments.forEach(comment => {
+    view.setUint32(offset, comment.length, true);
+    bytes.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  });
+  return bytes;
+};
+
+/**
+ * Encodes mono float samples (-1..1) as a 16-bit FLAC file.
+ * @param samples - The audio to encode.
+ * @param sampleRate - Sample rate of `samples`, stored in the stream header.
+ * @param tags - Vorbis comments such as TITLE and ARTIST.
+ */
+export const encodeFlac = (samples: Float32Array, sampleRate: number, tags: Record<string, string> = {}): Blob => {
+  const ints = toInt16(samples);
+  const streamInfo = encodeStreamInfo(sampleRate, ints.length);
+  const comments = encodeVorbisComments(tags);
+
+  const writer = createBitWriter();
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+  writer.writeBytes(metadataBlockHeader(0, streamInfo.length, false));
+  writer.writeBytes(streamInfo);
+  writer.writeBytes(metadataBlockHeader(4, comments.length, true));
+  writer.writeBytes(comments);
+  for (let offset = 0, frame = 0; offset < ints.length; offset += BLOCK_SIZE, frame++) {
+    writeFrame(writer, ints.subarray(offset, offset + BLOCK_SIZE), frame, sampleRate);
+  }
+  return new Blob([writer.bytes()], { type: 'audio/flac' });
+};
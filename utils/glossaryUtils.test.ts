@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { applyGlossary, correctTextWithGlossary } from './glossaryUtils';
+
+const terms = (...names: string[]) => names.map(term => ({ term }));
+
+describe('correctTextWithGlossary', () => {
+  it('fixes case, accents and spacing of exact matches', () => {
+    expect(correctTextWithGlossary('hablamos de open ai y de gémini', terms('OpenAI', 'Gemini'))).toBe('hablamos de OpenAI y de Gemini');
+  });
+
+  it('uses the phonetic hint', () => {
+    expect(correctTextWithGlossary('el doctor Nuyen llega', [{ term: 'Nguyen', phonetic: 'nuyen' }])).toBe('el doctor Nguyen llega');
+  });
+
+  it('fixes one typo in terms of seven or more letters', () => {
+    expect(correctTextWithGlossary('desplegado en Kubernetis', terms('Kubernetes'))).toBe('desplegado en Kubernetes');
+  });
+
+  it('allows a second typo only in much longer terms', () => {
+    expect(correctTextWithGlossary('Kuvernetis', terms('Kubernetes'))).toBe('Kuvernetis');
+    expect(correctTextWithGlossary('electrocardiograna ambulatorio', terms('electrocardiograma'))).toBe('electrocardiograma ambulatorio');
+    expect(correctTextWithGlossary('electrocardiogrann', terms('electrocardiograma'))).toBe('electrocardiograma');
+  });
+
+  it('leaves ordinary words that are one letter away from short terms', () => {
+    const text = 'These terms are on the stack, ask Marco, Marta or Mario';
+    expect(correctTextWithGlossary(text, terms('Teams', 'Slack', 'Marcos', 'María'))).toBe(text);
+  });
+
+  it('does not correct words with a different first letter', () => {
+    expect(correctTextWithGlossary('el Transcriptor', terms('Cranscriptor'))).toBe('el Transcriptor');
+  });
+
+  it('does not swallow neighbouring words', () => {
+    expect(correctTextWithGlossary('el transcriptor nuevo', terms('transcriptor'))).toBe('el transcriptor nuevo');
+  });
+});
+
+describe('applyGlossary', () => {
+  const segment = (text: string): TranscriptSegment => ({ start: 0, end: 1, speaker: 'Speaker 1', text });
+
+  it('corrects a misspelling the model repeats in every segment', () => {
+    const segments = ['Usamos Kubernetis.', 'Kubernetis escala solo.', 'Sin Kubernetis no hay nada.', 'Adiós, Kubernetis.'].map(segment);
+    expect(applyGlossary(segments, { id: '1', name: 'g', context: '', terms: terms('Kubernetes') }).map(s => s.text)).toEqual([
+      'Usamos Kubernetes.',
+      'Kubernetes escala solo.',
+      'Sin Kubernetes no hay nada.',
+      'Adiós, Kubernetes.',
+    ]);
+  });
+
+  it('corrects a single near-miss and keeps the timing', () => {
+    const result = applyGlossary([{ start: 2, end: 3, speaker: 'Ana', text: 'Usamos Kubernetis.' }], { id: '1', name: 'g', context: '', terms: terms('Kubernetes') });
+    expect(result).toEqual([{ start: 2, end: 3, speaker: 'Ana', text: 'Usamos Kubernetes.' }]);
+  });
+
+  it('returns the segments as they are without a glossary', () => {
+    const segments = [segment('hola')];
+    expect(applyGlossary(segments)).toBe(segments);
+  });
+});
@@ -0,0 +1,233 @@
+import { Glossary, GlossaryTerm, TranscriptSegment } from '../types';
+
+/**
+ * Builds the glossary section of the transcription prompt, or '' when there is nothing to add.
+ */
+export const buildGlossaryPrompt = (glossary?: Glossary): string => {
+  const terms = glossary?.terms.filter(t => t.term.trim()) ?? [];
+  if (!glossary || (terms.length === 0 && !glossary.context.trim())) return '';
+
+  const lines = ['- The audio is about a specific domain. Use this glossary to spell names and jargon exactly as listed:'];
+  if (glossary.context.trim()) lines.push(`  Context: ${glossary.context.trim()}`);
+  terms.forEach(({ term, phonetic }) => {
+    lines.push(phonetic?.trim() ? `  - ${term.trim()} (sounds like "${phonetic.trim()}")` : `  - ${term.trim()}`);
+  });
+  return lines.join('\n');
+};
+
+// Lowercase without accents or punctuation, so "Yémini," and "yemini" compare equal
+const normalizeForMatch = (value: string): string =>
+  value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Terms shorter than this only match exactly; one typo in a short word is usually another
+// word ("stack" and "Slack", "Marta" and "María")
+const MIN_FUZZY_LENGTH = 7;
+// Terms at least this long tolerate a second edit
+const MIN_TWO_EDIT_LENGTH = 14;
+
+interface MatchTarget {
+  term: string; // Replacement text
+  key: string; // Normalized spelling or phonetic hint to compare against
+  words: number; // Word count of the term, to size the window of transcript words
+}
+
+const buildTargets = (terms: GlossaryTerm[]): MatchTarget[] => {
+  return terms.flatMap(({ term, phonetic }) => {
+    const clean = term.trim();
+    if (!clean) return [];
+    const words = clean.split(/\s+/).length;
+    return [clean, phonetic ?? '']
+      .map(normalizeForMatch)
+      .filter(Boolean)
+      .map(key => ({ term: clean, key, words }));
+  });
+};
+
+const maxEdits = (length: number): number => (length < MIN_FUZZY_LENGTH ? 0 : length < MIN_TWO_EDIT_LENGTH ? 1 : 2);
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+
+/**
+ * Replaces near-miss spellings of glossary terms in one piece of text. Windows of one word
+ * more or fewer than the term are compared too, so "Open AI" can become "OpenAI", but
+ * only exact (accent and case insensitive) matches are accepted for them. Misspellings
+ * are only corrected for terms of 7 or more letters, and when the first letter matches.
+ */
+export const correctTextWithGlossary = (text: string, terms: GlossaryTerm[]): string => {
+  const targets = buildTargets(terms);
+  if (targets.length === 0) return text;
+  const words = Array.from(text.matchAll(WORD), match => ({ start: match.index!, end: match.index! + match[0].length }));
+  const maxWords = Math.max(...targets.map(t => t.words)) + 1;
+
+  let result = '';
+  let cursor = 0;
+  let i = 0;
+  while (i < words.length) {
+    let best: { term: string; count: number; distance: number; extraWords: number } | null = null;
+
+    for (let count = Math.min(maxWords, words.length - i); count >= 1; count--) {
+      const original = text.slice(words[i].start, words[i + count - 1].end);
+      const key = normalizeForMatch(original);
+      for (const target of targets) {
+        const extraWords = Math.abs(count - target.words);
+        if (extraWords > 1) continue;
+        // Split or joined words must match exactly, or a neighbouring "el" gets swallowed
+        const allowed = extraWords || key[0] !== target.key[0] ? 0 : maxEdits(target.key.length);
+        if (Math.abs(key.length - target.key.length) > allowed) continue;
+        const distance = key === target.key ? 0 : levenshtein(key, target.key);
+        if (distance > allowed) continue;
+        // On ties, the window closest to the term's own word count wins
+        if (!best || distance < best.distance || (distance === best.distance && extraWords < best.extraWords)) {
+          best = { term: target.term, count, distance, extraWords };
+        }
+      }
+    }
+
+    if (!best) {
+      i++;
+      continue;
+    }
+    const start = words[i].start;
+    const end = words[i + best.count - 1].end;
+    result += text.slice(cursor, start) + best.term;
+    cursor = end;
+    i += best.count;
+  }
+  return result + text.slice(cursor);
+};
+
+/**
+ * Corrects near-miss spellings of the glossary terms in every segment, keeping the timing.
+ */
+export const applyGlossary = (segments: TranscriptSegment[], glossary?: Glossary): TranscriptSegment[] => {
+  if (!glossary || glossary.terms.length === 0) return segments;
+  return segments.map(segment => {
+    const text = correctTextWithGlossary(segment.text, glossary.terms);
+    return text === segment.text ? segment : { ...segment, text };
+  });
+};
+
+export type GlossaryFileFormat = 'json' | 'csv';
+
+export const GLOSSARY_MIME_TYPES: Record<GlossaryFileFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+const escapeCsvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes a glossary for download. JSON keeps the name and context; CSV holds only the
+ * terms, one per row with a "term,phonetic" header, for editing in a spreadsheet.
+ */
+export const serializeGlossary = (glossary: Glossary, format: GlossaryFileFormat): string => {
+  if (format === 'json') {
+    const { name, context, terms } = glossary;
+    return JSON.stringify({ name, context, terms }, null, 2);
+  }
+  const rows = glossary.terms.map(t => `${escapeCsvField(t.term)},${escapeCsvField(t.phonetic ?? '')}`);
+  return ['term,phonetic', ...rows].join('\r\n');
+};
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with embedded separators,
+ * quotes and line breaks.
+ */
+const parseCsvRows = (content: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  rows.push([...row, field]);
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+const HEADER_NAMES = ['term', 'término', 'termino'];
+
+const parseTerm = (raw: unknown): GlossaryTerm | null => {
+  if (typeof raw === 'string') return raw.trim() ? { term: raw.trim() } : null;
+  const { term, phonetic } = (raw ?? {}) as Record<string, unknown>;
+  if (typeof term !== 'string' || !term.trim()) return null;
+  return typeof phonetic === 'string' && phonetic.trim() ? { term: term.trim(), phonetic: phonetic.trim() } : { term: term.trim() };
+};
+
+/**
+ * Reads a glossary exported by serializeGlossary, or a hand-made one: JSON with a terms array
+ * (of objects or plain strings), or CSV with the term in the first column and the phonetic
+ * hint in the second. CSV files exported from spreadsheets with ";" separators work too.
+ * @param content - The file contents.
+ * @param fileName - Used to pick the format and, for CSV, as the glossary name.
+ */
+export const parseGlossaryFile = (content: string, fileName: string): Omit<Glossary, 'id'> => {
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'Glosario';
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+
+  if (/\.json$/i.test(fileName) || /^[[{]/.test(trimmed)) {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`Invalid glossary JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const { name, context, terms } = (Array.isArray(payload) ? { terms: payload } : payload ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(terms)) {
+      throw new Error("Glossary JSON does not contain a terms array.");
+    }
+    return {
+      name: typeof name === 'string' && name.trim() ? name.trim() : baseName,
+      context: typeof context === 'string' ? context.trim() : '',
+      terms: terms.map(parseTerm).filter((t): t is GlossaryTerm => t !== null),
+    };
+  }
+
+  const firstLine = trimmed.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+  const rows = parseCsvRows(trimmed, separator);
+  if (rows.length > 0 && HEADER_NAMES.includes(rows[0][0].trim().toLowerCase())) rows.shift();
+  return {
+    name: baseName,
+    context: '',
+    terms: rows
+      .map(([term, phonetic]) => parseTerm({ term, phonetic }))
+      .filter((t): t is GlossaryTerm => t !== null),
+  };
+};
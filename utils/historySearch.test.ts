@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet } from './historySearch';
+
+describe('buildSnippet', () => {
+  it('centres the excerpt on the match in accented text', () => {
+    const text = `${'Introducción a la sesión. '.repeat(6)}Aquí empieza la transcripción del día.`;
+    expect(buildSnippet(text, 'transcripcion', 10)).toBe('…mpieza la transcripc…');
+  });
+
+  it('maps matches in decomposed text back to the original characters', () => {
+    const text = `${'x'.repeat(30)} cafe\u0301 con leche`;
+    expect(buildSnippet(text, 'caf\u00e9', 6)).toBe('…xxxxx cafe\u0301 …');
+  });
+
+  it('falls back to the beginning when nothing matches', () => {
+    expect(buildSnippet('Canción corta', 'nada')).toBe('Canción corta');
+    expect(buildSnippet('á'.repeat(30), 'nada', 5)).toBe(`${'á'.repeat(10)}…`);
+  });
+});
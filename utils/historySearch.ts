@@ -0,0 +1,111 @@
+import { HistoryItem, TranscriptionHistoryItem } from '../types';
+
+export type HistoryEntry =
+  | { kind: 'transcription'; item: TranscriptionHistoryItem }
+  | { kind: 'tts'; item: HistoryItem };
+
+export type HistoryKindFilter = 'all' | HistoryEntry['kind'];
+
+export type HistoryDateFilter = 'all' | 'today' | 'week' | 'month';
+
+export interface HistoryQuery {
+  text: string;
+  kind: HistoryKindFilter;
+  date: HistoryDateFilter;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercases and strips diacritics so "transcripción" matches "transcripcion".
+ */
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Normalizes one character at a time, recording for each normalized character the index
+ * of the original character it came from (stripping accents changes the text's length).
+ */
+const normalizeWithOffsets = (text: string): { normalized: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const part = normalize(char);
+    normalized += part;
+    for (let i = 0; i < part.length; i++) offsets.push(index);
+    index += char.length;
+  }
+  return { normalized, offsets };
+};
+
+const entrySearchText = (entry: HistoryEntry): string => {
+  if (entry.kind === 'transcription') {
+    return `${entry.item.source} ${entry.item.text}`;
+  }
+  return `${entry.item.voiceName} ${entry.item.text}`;
+};
+
+const dateCutoff = (filter: HistoryDateFilter, now: number): number => {
+  switch (filter) {
+    case 'today': {
+      const startOfDay = new Date(now);
+      startOfDay.setHours(0, 0, 0, 0);
+      return startOfDay.getTime();
+    }
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+    case 'all':
+      return -Infinity;
+  }
+};
+
+/**
+ * Filters transcription and TTS history together. Every word of the query must appear
+ * in the entry (accent- and case-insensitive). Results are sorted newest first.
+ */
+export const searchHistory = (
+  transcriptions: TranscriptionHistoryItem[],
+  ttsItems: HistoryItem[],
+  query: HistoryQuery,
+  now: number = Date.now()
+): HistoryEntry[] => {
+  const terms = normalize(query.text).split(/\s+/).filter(Boolean);
+  const cutoff = dateCutoff(query.date, now);
+
+  const entries: HistoryEntry[] = [
+    ...transcriptions.map(item => ({ kind: 'transcription' as const, item })),
+    ...ttsItems.map(item => ({ kind: 'tts' as const, item })),
+  ];
+
+  return entries
+    .filter(entry => query.kind === 'all' || entry.kind === query.kind)
+    .filter(entry => entry.item.timestamp >= cutoff)
+    .filter(entry => {
+      if (terms.length === 0) return true;
+      const haystack = normalize(entrySearchText(entry));
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.item.timestamp - a.item.timestamp);
+};
+
+/**
+ * Returns a short excerpt of `text` around the first query term, or its beginning when
+ * nothing matches.
+ */
+export const buildSnippet = (text: string, queryText: string, radius: number = 60): string => {
+  const terms = normalize(queryText).split(/\s+/).filter(Boolean);
+  const { normalized, offsets } = normalizeWithOffsets(text);
+  const positions = terms.map(term => normalized.indexOf(term)).filter(i => i >= 0);
+  const position = positions.length > 0 ? offsets[Math.min(...positions)] : -1;
+
+  if (position < 0) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text;
+  }
+
+  const start = Math.max(0, position - radius);
+  const end = Math.min(text.length, position + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
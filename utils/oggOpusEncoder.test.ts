@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { muxOggOpus, OpusPacket, readOpusPreSkip } from './oggOpusEncoder';
+
+const packet = (frames = 960): OpusPacket => ({ data: new Uint8Array(40), frames });
+
+const opusHead = (preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1;
+  head[9] = 1;
+  new DataView(head.buffer).setUint16(10, preSkip, true);
+  return head;
+};
+
+const readPage = (page: Uint8Array) => {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  const segments = page[26];
+  return {
+    flags: page[5],
+    granule: view.getUint32(6, true) + view.getUint32(10, true) * 2 ** 32,
+    sequence: view.getUint32(18, true),
+    body: page.subarray(27 + segments),
+  };
+};
+
+describe('readOpusPreSkip', () => {
+  it('reads the pre-skip from an OpusHead', () => {
+    expect(readOpusPreSkip(opusHead(120))).toBe(120);
+    expect(readOpusPreSkip(opusHead(3840).buffer)).toBe(3840);
+  });
+
+  it('returns null for missing or foreign descriptions', () => {
+    expect(readOpusPreSkip(undefined)).toBeNull();
+    expect(readOpusPreSkip(new Uint8Array(19))).toBeNull();
+    expect(readOpusPreSkip(opusHead(120).subarray(0, 10))).toBeNull();
+  });
+});
+
+describe('muxOggOpus', () => {
+  it('writes the pre-skip into the OpusHead', () => {
+    const [head] = muxOggOpus([packet()], 500, 24000, 120).map(readPage);
+    expect(readOpusPreSkip(head.body)).toBe(120);
+    expect(head.flags).toBe(0x02);
+  });
+
+  it('trims the padding of a short input with the final granule position', () => {
+    // 500 input samples still produce a whole 960-sample packet
+    const pages = muxOggOpus([packet()], 500, 24000, 312).map(readPage);
+    expect(pages).toHaveLength(3);
+    expect(pages[2]).toMatchObject({ granule: 312 + 500, flags: 0x04, sequence: 2 });
+  });
+
+  it('uses the encoder pre-skip for the end trim', () => {
+    const pages = muxOggOpus([packet(), packet()], 1000, 24000, 120).map(readPage);
+    expect(pages[2].granule).toBe(120 + 1000);
+  });
+
+  it('counts whole packets on every page but the last', () => {
+    const packets = Array.from({ length: 60 }, () => packet());
+    const pages = muxOggOpus(packets, 60 * 960 - 700, 24000, 312).map(readPage);
+    expect(pages.map(page => page.granule)).toEqual([0, 0, 50 * 960, 312 + 60 * 960 - 700]);
+    expect(pages.map(page => page.flags)).toEqual([0x02, 0, 0, 0x04]);
+  });
+});
@@ -0,0 +1,218 @@
+import { bytesToBlob } from './audioUtils';
+import { encodeVorbisComments } from './flacEncoder';
+
+/**
+ * Ogg Opus encoding through WebCodecs. The browser's AudioEncoder produces raw Opus
+ * packets; this module wraps them in the Ogg container described by RFC 7845.
+ */
+
+const OPUS_SAMPLE_RATE = 48000; // Opus always decodes at 48kHz, whatever the input rate
+const OPUS_BITRATE = 48000; // Transparent for speech
+// libopus' encoder lookahead at 48kHz, used when the encoder doesn't provide an OpusHead
+const DEFAULT_PRE_SKIP = 312;
+const ENCODE_FRAMES_PER_CALL = 48000;
+const PACKETS_PER_PAGE = 50; // One second of 20ms packets
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const createOggPage = (
+  packets: Uint8Array[],
+  granulePosition: number,
+  serial: number,
+  sequence: number,
+  flags: number
+): Uint8Array => {
+  // Each packet is split into 255-byte lacing values, ending with one below 255
+  const lacing: number[] = [];
+  packets.forEach(packet => {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+  });
+
+  const headerLength = 27 + lacing.length;
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(headerLength + bodyLength);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+  view.setUint8(4, 0); // Version
+  view.setUint8(5, flags);
+  view.setUint32(6, granulePosition % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granulePosition / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = headerLength;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const createOpusHead = (inputSampleRate: number, preSkip: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, 1); // Channels
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Channel mapping family 0: mono or stereo
+  return head;
+};
+
+const createOpusTags = (tags: Record<string, string>): Uint8Array => {
+  const comments = encodeVorbisComments(tags);
+  const packet = new Uint8Array(8 + comments.length);
+  packet.set(new TextEncoder().encode('OpusTags'), 0);
+  packet.set(comments, 8);
+  return packet;
+};
+
+/**
+ * Reads the pre-skip from the OpusHead an encoder reports as its decoder description, or
+ * null when the description is missing or not an OpusHead.
+ */
+export const readOpusPreSkip = (description?: AllowSharedBufferSource): number | null => {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+export interface OpusPacket {
+  data: Uint8Array;
+  frames: number; // Decoded length at 48kHz
+}
+
+/**
+ * Wraps encoded Opus packets in Ogg pages: the OpusHead and OpusTags headers, then the audio
+ * in pages of PACKETS_PER_PAGE packets.
+ * @param sampleCount - Length of the encoded input at 48kHz, used to trim the encoder's padding.
+ * @param preSkip - Samples the decoder drops from the start, as reported by the encoder.
+ */
+export const muxOggOpus = (
+  packets: OpusPacket[],
+  sampleCount: number,
+  inputSampleRate: number,
+  preSkip: number = DEFAULT_PRE_SKIP,
+  tags: Record<string, string> = {},
+  serial: number = Math.floor(Math.random() * 2 ** 32)
+): Uint8Array[] => {
+  const pages: Uint8Array[] = [
+    createOggPage([createOpusHead(inputSampleRate, preSkip)], 0, serial, 0, 0x02),
+    createOggPage([createOpusTags(tags)], 0, serial, 1, 0),
+  ];
+
+  // Granule positions count decoded samples including the pre-skip; the last page's value
+  // also trims the encoder's padding from the end of the stream
+  const endGranule = preSkip + sampleCount;
+  let granule = 0;
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const pagePackets = packets.slice(i, i + PACKETS_PER_PAGE);
+    granule += pagePackets.reduce((sum, packet) => sum + packet.frames, 0);
+    const isLast = i + PACKETS_PER_PAGE >= packets.length;
+    pages.push(createOggPage(
+      pagePackets.map(packet => packet.data),
+      isLast ? Math.min(granule, endGranule) : granule,
+      serial,
+      pages.length,
+      isLast ? 0x04 : 0
+    ));
+  }
+  return pages;
+};
+
+const ENCODER_CONFIG: AudioEncoderConfig = {
+  codec: 'opus',
+  sampleRate: OPUS_SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitrate: OPUS_BITRATE,
+};
+
+/**
+ * True when the browser can encode Opus through WebCodecs.
+ */
+export const isOpusEncodingSupported = async (): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(ENCODER_CONFIG);
+    return supported === true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Encodes 48kHz mono float samples as an Ogg Opus file.
+ * @param samples - The audio to encode, already at 48kHz.
+ * @param inputSampleRate - The rate the audio was produced at, recorded in the header for players.
+ * @param tags - Vorbis comments such as TITLE and ARTIST.
+ */
+export const encodeOggOpus = async (
+  samples: Float32Array,
+  inputSampleRate: number,
+  tags: Record<string, string> = {}
+): Promise<Blob> => {
+  const packets: OpusPacket[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let encoderError: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      preSkip = readOpusPreSkip(metadata?.decoderConfig?.description) ?? preSkip;
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, frames: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+    },
+    error: error => {
+      encoderError = error;
+    },
+  });
+  encoder.configure(ENCODER_CONFIG);
+
+  for (let offset = 0; offset < samples.length; offset += ENCODE_FRAMES_PER_CALL) {
+    const frames = samples.slice(offset, offset + ENCODE_FRAMES_PER_CALL);
+    const audioData = new AudioData({
+      format: 'f32',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset / OPUS_SAMPLE_RATE) * 1e6),
+      data: frames,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encoderError) throw encoderError;
+
+  return bytesToBlob(muxOggOpus(packets, samples.length, inputSampleRate, preSkip, tags), 'audio/ogg; codecs=opus');
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { applyLexicon, compileSpeechMarkup, MAX_PAUSE_MS, parseSpeechMarkup, speechPartsToText } from './speechMarkup';
+
+const messages = (source: string) => parseSpeechMarkup(source).errors.map(e => e.message);
+
+describe('parseSpeechMarkup', () => {
+  it('parses pauses in milliseconds and seconds', () => {
+    expect(parseSpeechMarkup('Uno [pause 800ms] dos [PAUSE 1,5 s] tres [pause 0.25s]').nodes).toEqual([
+      { type: 'text', text: 'Uno ' },
+      { type: 'pause', ms: 800 },
+      { type: 'text', text: ' dos ' },
+      { type: 'pause', ms: 1500 },
+      { type: 'text', text: ' tres ' },
+      { type: 'pause', ms: 250 },
+    ]);
+  });
+
+  it('accepts the longest pause and rejects longer or malformed ones', () => {
+    expect(parseSpeechMarkup(`[pause ${MAX_PAUSE_MS}ms]`).errors).toEqual([]);
+    expect(messages('[pause 10.5s]')).toEqual(['La pausa máxima es de 10 s.']);
+    expect(messages('[pause]')).toEqual(['Escribe la pausa como [pause 800ms] o [pause 2s].']);
+    expect(messages('[pause 3 minutes]')).toEqual(['Escribe la pausa como [pause 800ms] o [pause 2s].']);
+    expect(messages('[/pause]')).toEqual(['Escribe la pausa como [pause 800ms] o [pause 2s].']);
+  });
+
+  it('parses emphasis and spelling', () => {
+    expect(parseSpeechMarkup('Es *muy* importante: [spell]ONU[/spell].').nodes).toEqual([
+      { type: 'text', text: 'Es ' },
+      { type: 'emphasis', text: 'muy' },
+      { type: 'text', text: ' importante: ' },
+      { type: 'spell', text: 'ONU' },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('keeps escaped characters and unknown brackets as text', () => {
+    expect(parseSpeechMarkup('5 \\* 3 \\[pause 1s] [risas] [1]').nodes).toEqual([{ type: 'text', text: '5 * 3 [pause 1s] [risas] [1]' }]);
+  });
+
+  it('reports unclosed and empty emphasis', () => {
+    expect(parseSpeechMarkup('Hola *mundo\nadiós').errors).toEqual([{ start: 5, end: 11, message: 'Falta el «*» que cierra el énfasis.' }]);
+    expect(parseSpeechMarkup('a ** b').errors).toEqual([{ start: 2, end: 4, message: 'El énfasis está vacío.' }]);
+  });
+
+  it('reports spelling errors', () => {
+    expect(messages('[spell x]a[/spell]')).toEqual(['[spell] no lleva argumentos.', '[/spell] sin un [spell] que lo abra.']);
+    expect(messages('[spell][spell]a[/spell]')).toEqual(['[spell] no puede ir dentro de otro [spell] ni de un énfasis.']);
+    expect(messages('[spell] [/spell]')).toEqual(['[spell] está vacío.']);
+    expect(parseSpeechMarkup('Di [spell]ONU').errors).toEqual([{ start: 3, end: 13, message: 'Falta el [/spell] de cierre.' }]);
+    expect(messages('*a [pause 1s] b*')).toEqual(['Las pausas no pueden ir dentro de un énfasis ni de [spell].']);
+  });
+
+  it('reports the offsets of each error and keeps parsing after it', () => {
+    const { nodes, errors } = parseSpeechMarkup('Hola [pause 3s [/spell] fin');
+    expect(errors).toEqual([
+      { start: 5, end: 15, message: 'Falta el «]» que cierra la etiqueta.' },
+      { start: 15, end: 23, message: '[/spell] sin un [spell] que lo abra.' },
+    ]);
+    expect(nodes).toEqual([{ type: 'text', text: 'Hola  fin' }]);
+  });
+});
+
+describe('applyLexicon', () => {
+  it('replaces whole words only, ignoring case', () => {
+    const lexicon = [{ word: 'SQL', say: 'sequel' }, { word: 'gif', say: 'yif' }];
+    expect(applyLexicon('sql y SQLite, un GIF o gifs', lexicon)).toBe('sequel y SQLite, un yif o gifs');
+  });
+
+  it('treats the lexicon words literally and skips empty entries', () => {
+    expect(applyLexicon('C++ y C', [{ word: 'C++', say: 'ce más más' }, { word: ' ', say: 'nada' }])).toBe('ce más más y C');
+  });
+});
+
+describe('compileSpeechMarkup', () => {
+  it('merges adjacent pauses and applies the lexicon to emphasis', () => {
+    const { nodes } = parseSpeechMarkup('Di *hola* [pause 800ms][pause 1,5s] a la [spell]ONU 24[/spell].');
+    const parts = compileSpeechMarkup(nodes, [{ word: 'hola', say: 'ola' }]);
+    expect(parts).toEqual([
+      { type: 'speech', text: 'Di ola', emphasis: ['ola'] },
+      { type: 'pause', ms: 2300 },
+      { type: 'speech', text: 'a la O-N-U 2-4.', emphasis: [] },
+    ]);
+    expect(speechPartsToText(parts)).toBe('Di ola a la O-N-U 2-4.');
+  });
+
+  it('merges pauses separated only by whitespace', () => {
+    const parts = compileSpeechMarkup(parseSpeechMarkup('[pause 1s] \n [pause 2s]Fin').nodes);
+    expect(parts).toEqual([{ type: 'pause', ms: 3000 }, { type: 'speech', text: 'Fin', emphasis: [] }]);
+  });
+});
@@ -0,0 +1,206 @@
+import { PronunciationEntry } from '../types';
+
+/*
+ * Lightweight markup for the TTS editor:
+ *   [pause 800ms] / [pause 1.5s]   exact silence at that point
+ *   *words*                        stressed words
+ *   [spell]ONU[/spell]             read letter by letter
+ * A backslash keeps the next "*" or "[" literal. Brackets that don't start a known tag
+ * ("[1]", "[risas]") are ordinary text.
+ */
+
+export type MarkupNode =
+  | { type: 'text'; text: string }
+  | { type: 'emphasis'; text: string }
+  | { type: 'spell'; text: string }
+  | { type: 'pause'; ms: number };
+
+export interface MarkupError {
+  start: number; // Offset in the source text
+  end: number;
+  message: string;
+}
+
+export interface ParsedMarkup {
+  nodes: MarkupNode[];
+  errors: MarkupError[];
+}
+
+export const MAX_PAUSE_MS = 10000;
+
+const TAG = /\[\s*(\/?)\s*(pause|spell)\b([^\][\n]*)(\]?)/iy;
+const PAUSE_ARGUMENT = /^\s*(\d+(?:[.,]\d+)?)\s*(ms|s)\s*$/i;
+
+/**
+ * Parses the markup into nodes. Malformed tags are reported as errors with their position
+ * and left out of the nodes, so the rest of the text still parses.
+ */
+export const parseSpeechMarkup = (source: string): ParsedMarkup => {
+  const nodes: MarkupNode[] = [];
+  const errors: MarkupError[] = [];
+  let buffer = '';
+  let emphasisStart = -1; // Offset of the opening "*" while inside emphasis
+  let spellStart = -1; // Offset of the opening [spell] while inside one
+
+  const flush = (type: 'text' | 'emphasis' | 'spell') => {
+    if (buffer) nodes.push({ type, text: buffer });
+    buffer = '';
+  };
+  const currentType = () => (spellStart >= 0 ? 'spell' : emphasisStart >= 0 ? 'emphasis' : 'text');
+  const closeUnfinishedEmphasis = (at: number) => {
+    errors.push({ start: emphasisStart, end: at, message: 'Falta el «*» que cierra el énfasis.' });
+    emphasisStart = -1;
+    flush('text');
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === '\\' && (source[i + 1] === '*' || source[i + 1] === '[')) {
+      buffer += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n' && emphasisStart >= 0) {
+      closeUnfinishedEmphasis(i);
+    }
+
+    if (char === '*' && spellStart < 0) {
+      if (emphasisStart < 0) {
+        flush('text');
+        emphasisStart = i;
+      } else {
+        if (!buffer.trim()) errors.push({ start: emphasisStart, end: i + 1, message: 'El énfasis está vacío.' });
+        flush('emphasis');
+        emphasisStart = -1;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      TAG.lastIndex = i;
+      const match = TAG.exec(source);
+      if (match) {
+        const [raw, slash, name, argument, closing] = match;
+        const end = i + raw.length;
+        i = end;
+        if (!closing) {
+          errors.push({ start: end - raw.length, end, message: 'Falta el «]» que cierra la etiqueta.' });
+          continue;
+        }
+        const start = end - raw.length;
+        const tag = name.toLowerCase();
+
+        if (tag === 'pause') {
+          const pause = argument.match(PAUSE_ARGUMENT);
+          const ms = pause ? parseFloat(pause[1].replace(',', '.')) * (pause[2].toLowerCase() === 's' ? 1000 : 1) : NaN;
+          if (slash || !pause) {
+            errors.push({ start, end, message: 'Escribe la pausa como [pause 800ms] o [pause 2s].' });
+          } else if (ms > MAX_PAUSE_MS) {
+            errors.push({ start, end, message: `La pausa máxima es de ${MAX_PAUSE_MS / 1000} s.` });
+          } else if (emphasisStart >= 0 || spellStart >= 0) {
+            errors.push({ start, end, message: 'Las pausas no pueden ir dentro de un énfasis ni de [spell].' });
+          } else {
+            flush('text');
+            nodes.push({ type: 'pause', ms: Math.round(ms) });
+          }
+        } else if (!slash) {
+          if (argument.trim()) {
+            errors.push({ start, end, message: '[spell] no lleva argumentos.' });
+          } else if (spellStart >= 0 || emphasisStart >= 0) {
+            errors.push({ start, end, message: '[spell] no puede ir dentro de otro [spell] ni de un énfasis.' });
+          } else {
+            flush('text');
+            spellStart = start;
+          }
+        } else if (spellStart < 0) {
+          errors.push({ start, end, message: '[/spell] sin un [spell] que lo abra.' });
+        } else {
+          if (!buffer.trim()) errors.push({ start: spellStart, end, message: '[spell] está vacío.' });
+          flush('spell');
+          spellStart = -1;
+        }
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  if (emphasisStart >= 0) closeUnfinishedEmphasis(source.length);
+  if (spellStart >= 0) {
+    errors.push({ start: spellStart, end: source.length, message: 'Falta el [/spell] de cierre.' });
+    spellStart = -1;
+  }
+  flush(currentType());
+  return { nodes, errors };
+};
+
+export type SpeechPart =
+  | { type: 'speech'; text: string; emphasis: string[] }
+  | { type: 'pause'; ms: number };
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces every whole-word occurrence of the lexicon words with their respelling,
+ * ignoring case.
+ */
+export const applyLexicon = (text: string, lexicon: PronunciationEntry[]): string => {
+  return lexicon.reduce((result, { word, say }) => {
+    if (!word.trim() || !say.trim()) return result;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+    return result.replace(pattern, () => say.trim());
+  }, text);
+};
+
+// "ONU 24" -> "O-N-U 2-4"
+const spellOut = (text: string): string =>
+  text.trim().split(/\s+/).map(word => Array.from(word).join('-')).join(' ');
+
+/**
+ * Compiles parsed markup into what the TTS model is sent: speech parts separated by the
+ * pauses, which are rendered as silence rather than sent to the model. Consecutive pauses
+ * are added together.
+ */
+export const compileSpeechMarkup = (nodes: MarkupNode[], lexicon: PronunciationEntry[] = []): SpeechPart[] => {
+  const parts: SpeechPart[] = [];
+  let text = '';
+  let emphasis: string[] = [];
+
+  const flush = () => {
+    if (text.trim()) parts.push({ type: 'speech', text: text.trim(), emphasis });
+    text = '';
+    emphasis = [];
+  };
+
+  nodes.forEach(node => {
+    if (node.type === 'pause') {
+      flush();
+      const last = parts[parts.length - 1];
+      if (last?.type === 'pause') last.ms += node.ms;
+      else parts.push({ type: 'pause', ms: node.ms });
+      return;
+    }
+    if (node.type === 'spell') {
+      text += spellOut(node.text);
+      return;
+    }
+    const compiled = applyLexicon(node.text, lexicon);
+    text += compiled;
+    if (node.type === 'emphasis' && compiled.trim()) emphasis.push(compiled.trim());
+  });
+  flush();
+  return parts;
+};
+
+/**
+ * The text of all speech parts joined together, for requests that can't splice in pauses.
+ */
+export const speechPartsToText = (parts: SpeechPart[]): string => {
+  return parts.map(part => (part.type === 'speech' ? part.text : '')).filter(Boolean).join(' ');
+};
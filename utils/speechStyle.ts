@@ -0,0 +1,100 @@
+import { SpeechEmphasis, SpeechPace, SpeechStyle, SpeechTone } from '../types';
+
+export const DEFAULT_SPEECH_STYLE: SpeechStyle = {
+  pace: 'normal',
+  tone: 'neutral',
+  emphasis: 'normal',
+  notes: '',
+};
+
+export const SPEECH_PACE_LABELS: Record<SpeechPace, string> = {
+  'very-slow': 'Muy lento',
+  slow: 'Lento',
+  normal: 'Normal',
+  fast: 'Rápido',
+  'very-fast': 'Muy rápido',
+};
+
+export const SPEECH_TONE_LABELS: Record<SpeechTone, string> = {
+  neutral: 'Neutral',
+  cheerful: 'Alegre',
+  serious: 'Serio',
+  calm: 'Calmado',
+  warm: 'Cálido',
+  excited: 'Entusiasta',
+  sad: 'Triste',
+  whispering: 'Susurro',
+};
+
+export const SPEECH_EMPHASIS_LABELS: Record<SpeechEmphasis, string> = {
+  subtle: 'Sutil',
+  normal: 'Normal',
+  strong: 'Marcado',
+};
+
+// Phrased the way Gemini's TTS docs write style prompts ("Say cheerfully: ...")
+const PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  'very-slow': 'very slowly, with long pauses',
+  slow: 'slowly',
+  normal: '',
+  fast: 'at a brisk pace',
+  'very-fast': 'very quickly',
+};
+
+const TONE_DIRECTIONS: Record<SpeechTone, string> = {
+  neutral: '',
+  cheerful: 'in a cheerful, upbeat tone',
+  serious: 'in a serious, formal tone',
+  calm: 'in a calm, soothing tone',
+  warm: 'in a warm, friendly tone',
+  excited: 'with excitement',
+  sad: 'in a sad, subdued tone',
+  whispering: 'in a soft whisper',
+};
+
+const EMPHASIS_DIRECTIONS: Record<SpeechEmphasis, string> = {
+  subtle: 'with understated, even delivery',
+  normal: '',
+  strong: 'stressing the key words strongly',
+};
+
+/**
+ * Turns a style into the instruction placed before the text, or an empty string for the
+ * default style so unstyled requests stay exactly as before.
+ */
+export const buildStylePrompt = (style: SpeechStyle): string => {
+  const directions = [TONE_DIRECTIONS[style.tone], PACE_DIRECTIONS[style.pace], EMPHASIS_DIRECTIONS[style.emphasis]].filter(Boolean);
+  const notes = style.notes.trim();
+  if (directions.length === 0 && !notes) return '';
+
+  const sentence = `Read the following aloud${directions.length > 0 ? ` ${directions.join(', ')}` : ''}.`;
+  return notes ? `${sentence} Director's notes: ${notes}` : sentence;
+};
+
+/**
+ * Prefixes text with the style prompt the TTS model reads as directions rather than speech.
+ * Words in `emphasis` are added to the directions as words to stress.
+ */
+export const applySpeechStyle = (text: string, style?: SpeechStyle, emphasis: string[] = []): string => {
+  const stylePrompt = style ? buildStylePrompt(style) : '';
+  const stressed = emphasis.map(phrase => `"${phrase}"`).join(', ');
+  const prompt = !stressed
+    ? stylePrompt
+    : stylePrompt
+      ? `${stylePrompt} Stress ${stressed}.`
+      : `Read the following aloud, stressing ${stressed}.`;
+  return prompt ? `${prompt}\n\n${text}` : text;
+};
+
+/**
+ * Short Spanish summary of the non-default settings, for history entries and preset lists.
+ */
+export const describeSpeechStyle = (style: SpeechStyle): string => {
+  const parts = [
+    style.tone !== 'neutral' ? SPEECH_TONE_LABELS[style.tone] : '',
+    style.pace !== 'normal' ? SPEECH_PACE_LABELS[style.pace] : '',
+    style.emphasis !== 'normal' ? `Énfasis ${SPEECH_EMPHASIS_LABELS[style.emphasis].toLowerCase()}` : '',
+    style.notes.trim() ? 'Notas' : '',
+  ].filter(Boolean);
+  return parts.join(' · ');
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildCues, serializeSubtitles, SubtitleCue, toSrt, toTtml, toVtt } from './subtitleUtils';
+
+const cue = (start: number, end: number, lines: string[], speaker = 'Speaker 1'): SubtitleCue => ({ start, end, speaker, lines });
+
+describe('toSrt', () => {
+  it('numbers cues and formats timestamps with a comma before the milliseconds', () => {
+    expect(toSrt([cue(0, 1.5, ['Hola']), cue(3661.042, 3662, ['línea uno', 'línea dos'])])).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHola\n\n' +
+      '2\n01:01:01,042 --> 01:01:02,000\nlínea uno\nlínea dos\n'
+    );
+  });
+
+  it('rounds to the millisecond and clamps negative times to zero', () => {
+    expect(toSrt([cue(-0.2, 59.9996, ['x'])])).toContain('00:00:00,000 --> 00:01:00,000');
+  });
+});
+
+describe('toVtt', () => {
+  it('writes the header, dotted timestamps and the speaker as a voice tag', () => {
+    expect(toVtt([cue(1.25, 2, ['Hola'], 'Ana')])).toBe('WEBVTT\n\n00:00:01.250 --> 00:00:02.000\n<v Ana>Hola\n');
+  });
+
+  it('escapes markup in the text and the speaker', () => {
+    expect(toVtt([cue(0, 1, ['a < b & c > d'], 'Ana <host>')])).toContain('<v Ana &lt;host&gt;>a &lt; b &amp; c &gt; d');
+  });
+});
+
+describe('toTtml', () => {
+  it('writes one paragraph per cue with line breaks and the language', () => {
+    const ttml = toTtml([cue(0.5, 2, ['uno', 'dos'])], 'es-ES');
+    expect(ttml).toContain('xml:lang="es-ES"');
+    expect(ttml).toContain('<p begin="00:00:00.500" end="00:00:02.000">uno<br/>dos</p>');
+  });
+
+  it('escapes the text and the language attribute', () => {
+    const ttml = toTtml([cue(0, 1, ['Tom & "Jerry" <3'])], 'x"y');
+    expect(ttml).toContain('>Tom &amp; "Jerry" &lt;3</p>');
+    expect(ttml).toContain('xml:lang="x&quot;y"');
+  });
+
+  it('uses "und" when no language is given', () => {
+    expect(toTtml([])).toContain('xml:lang="und"');
+  });
+});
+
+describe('buildCues', () => {
+  const options = { maxCharsPerLine: 20, maxLinesPerCue: 2, maxCueDuration: 7 };
+
+  it('keeps short segments in one cue', () => {
+    expect(buildCues([{ start: 0, end: 2, speaker: 'Ana', text: 'Hola a todos.' }], options)).toEqual([
+      { start: 0, end: 2, speaker: 'Ana', lines: ['Hola a todos.'] },
+    ]);
+  });
+
+  it('splits at sentences and spreads the time by length', () => {
+    const cues = buildCues([{ start: 0, end: 6, speaker: 'Ana', text: 'Primera frase bastante larga. Segunda frase.' }], options);
+    expect(cues.map(c => c.lines.join(' '))).toEqual(['Primera frase bastante larga.', 'Segunda frase.']);
+    expect(cues[0].start).toBe(0);
+    expect(cues[0].end).toBeCloseTo(cues[1].start);
+    expect(cues[1].end).toBe(6);
+  });
+
+  it('never cuts inside decimals, times or abbreviations', () => {
+    const text = 'Costó 2.50 dólares. A las 10.30 llega el Sr. García.';
+    const cues = buildCues([{ start: 0, end: 6, speaker: 'Ana', text }], options);
+    expect(cues.map(c => c.lines.join(' '))).toEqual(['Costó 2.50 dólares.', 'A las 10.30 llega el Sr. García.']);
+  });
+
+  it('breaks sentences that do not fit in a cue at words and respects the line limits', () => {
+    const text = 'una dos tres cuatro cinco seis siete ocho nueve diez once doce trece catorce quince';
+    const cues = buildCues([{ start: 0, end: 6, speaker: 'Ana', text }], options);
+    expect(cues.length).toBeGreaterThan(1);
+    cues.forEach(c => {
+      expect(c.lines.length).toBeLessThanOrEqual(2);
+      c.lines.forEach(line => expect(line.length).toBeLessThanOrEqual(20));
+    });
+    expect(cues.map(c => c.lines.join(' ')).join(' ')).toBe(text);
+  });
+
+  it('splits cues longer than the maximum duration into back-to-back cues', () => {
+    const cues = buildCues([{ start: 0, end: 20, speaker: 'Ana', text: 'uno dos tres cuatro cinco seis' }], options);
+    expect(cues).toHaveLength(3);
+    expect(cues.map(c => c.lines.join(' ')).join(' ')).toBe('uno dos tres cuatro cinco seis');
+    expect(cues[0].start).toBe(0);
+    expect(cues[1].start).toBeCloseTo(cues[0].end);
+    expect(cues[2].start).toBeCloseTo(cues[1].end);
+    expect(cues[2].end).toBe(20);
+  });
+
+  it('estimates the end of segments without one, up to the next segment', () => {
+    const cues = buildCues([
+      { start: 0, end: 0, speaker: 'Ana', text: 'Hola.' },
+      { start: 0.5, end: 1, speaker: 'Luis', text: 'Adiós.' },
+    ], options);
+    expect(cues[0].end).toBe(0.5);
+  });
+});
+
+describe('serializeSubtitles', () => {
+  it('keeps the transcript text intact in every format', () => {
+    const segments = [{ start: 0, end: 3, speaker: 'Ana', text: 'Costó 2.50 dólares' }];
+    expect(serializeSubtitles(segments, 'srt')).toContain('Costó 2.50 dólares');
+    expect(serializeSubtitles(segments, 'vtt')).toContain('Costó 2.50 dólares');
+    expect(serializeSubtitles(segments, 'ttml', { language: 'es' })).toContain('Costó 2.50 dólares');
+  });
+});
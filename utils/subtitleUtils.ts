@@ -0,0 +1,238 @@
+import { TranscriptSegment } from '../types';
+import { findSentenceSpans, findWordSpans, TextSpan } from './textUtils';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml';
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueDuration: number; // Seconds
+  language?: string; // BCP 47 tag written into formats that carry one (TTML)
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: string;
+  lines: string[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCueDuration: 7,
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ttml: 'application/ttml+xml',
+};
+
+// Reading speed used to give a duration to segments the model returned without one
+const CHARS_PER_SECOND = 15;
+
+/**
+ * Greedy word wrap. A single word longer than the limit is kept whole on its own line.
+ */
+const wrapLines = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= maxChars) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Packs whole sentences into cue-sized pieces. Sentences that do not fit in a cue on their own
+ * are broken at word boundaries. Pieces are cut from the original text, never re-joined.
+ */
+const packSentences = (text: string, options: SubtitleOptions): string[] => {
+  const fits = (start: number, end: number) =>
+    wrapLines(text.slice(start, end), options.maxCharsPerLine).length <= options.maxLinesPerCue;
+
+  const pieces: string[] = [];
+  let current: TextSpan | null = null;
+  const flush = () => {
+    if (current) pieces.push(text.slice(current.start, current.end));
+    current = null;
+  };
+
+  for (const sentence of findSentenceSpans(text)) {
+    const start: number = current?.start ?? sentence.start;
+    if (fits(start, sentence.end)) {
+      current = { start, end: sentence.end };
+      continue;
+    }
+    flush();
+    if (fits(sentence.start, sentence.end)) {
+      current = sentence;
+      continue;
+    }
+    for (const word of findWordSpans(text, sentence)) {
+      if (!current || fits(current.start, word.end)) {
+        current = { start: current?.start ?? word.start, end: word.end };
+      } else {
+        flush();
+        current = word;
+      }
+    }
+  }
+  flush();
+  return pieces;
+};
+
+/**
+ * Splits a piece into `count` parts of roughly equal length at word boundaries.
+ */
+const splitEvenly = (text: string, count: number): string[] => {
+  const words = findWordSpans(text);
+  if (count <= 1 || words.length <= 1) return [text];
+
+  const target = text.length / Math.min(count, words.length);
+  const parts: string[] = [];
+  let partStart = words[0].start;
+  let partEnd = words[0].end;
+  for (const word of words.slice(1)) {
+    if (word.end - partStart > target && parts.length < count - 1) {
+      parts.push(text.slice(partStart, partEnd));
+      partStart = word.start;
+    }
+    partEnd = word.end;
+  }
+  parts.push(text.slice(partStart, partEnd));
+  return parts;
+};
+
+/**
+ * Distributes a time span over text pieces proportionally to their length.
+ */
+const allocateTimes = (pieces: string[], start: number, end: number) => {
+  const totalChars = pieces.reduce((sum, piece) => sum + piece.length, 0) || 1;
+  let cursor = start;
+  return pieces.map((text, i) => {
+    const pieceEnd = i === pieces.length - 1
+      ? end
+      : cursor + (end - start) * (text.length / totalChars);
+    const timed = { text, start: cursor, end: pieceEnd };
+    cursor = pieceEnd;
+    return timed;
+  });
+};
+
+/**
+ * Turns transcript segments into subtitle cues that respect the line length, line count
+ * and cue duration limits.
+ */
+export const buildCues = (
+  segments: TranscriptSegment[],
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  segments.forEach((segment, index) => {
+    let end = segment.end;
+    if (end <= segment.start) {
+      const estimated = segment.start + Math.max(1, segment.text.length / CHARS_PER_SECOND);
+      const next = segments[index + 1]?.start;
+      end = next !== undefined && next > segment.start ? Math.min(estimated, next) : estimated;
+    }
+
+    const pieces = allocateTimes(packSentences(segment.text, options), segment.start, end);
+
+    for (const piece of pieces) {
+      const parts = splitEvenly(piece.text, Math.ceil((piece.end - piece.start) / options.maxCueDuration));
+      for (const part of allocateTimes(parts, piece.start, piece.end)) {
+        cues.push({
+          start: part.start,
+          end: part.end,
+          speaker: segment.speaker,
+          lines: wrapLines(part.text, options.maxCharsPerLine),
+        });
+      }
+    }
+  });
+
+  return cues;
+};
+
+/**
+ * Formats seconds as HH:MM:SS<separator>mmm.
+ */
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+const escapeMarkup = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeXmlAttribute = (text: string): string =>
+  escapeMarkup(text).replace(/"/g, '&quot;');
+
+export const toSrt = (cues: SubtitleCue[]): string => {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+};
+
+export const toVtt = (cues: SubtitleCue[]): string => {
+  const body = cues
+    .map(cue => {
+      const text = cue.lines.map(escapeMarkup).join('\n');
+      return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n<v ${escapeMarkup(cue.speaker)}>${text}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+export const toTtml = (cues: SubtitleCue[], language = 'und'): string => {
+  const paragraphs = cues
+    .map(cue => `      <p begin="${formatTimestamp(cue.start, '.')}" end="${formatTimestamp(cue.end, '.')}">${cue.lines.map(escapeMarkup).join('<br/>')}</p>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXmlAttribute(language)}">
+  <body>
+    <div>
+${paragraphs}
+    </div>
+  </body>
+</tt>
+`;
+};
+
+/**
+ * Serializes transcript segments into the requested subtitle format.
+ */
+export const serializeSubtitles = (
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  options: Partial<SubtitleOptions> = {}
+): string => {
+  const resolved = { ...DEFAULT_SUBTITLE_OPTIONS, ...options };
+  const cues = buildCues(segments, resolved);
+
+  switch (format) {
+    case 'srt':
+      return toSrt(cues);
+    case 'vtt':
+      return toVtt(cues);
+    case 'ttml':
+      return toTtml(cues, resolved.language);
+  }
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { findParagraphSpans, findSentenceSpans, splitIntoSentences, splitTextIntoChunks } from './textUtils';
+
+describe('splitIntoSentences', () => {
+  it('splits after sentence punctuation and keeps closing quotes with the sentence', () => {
+    expect(splitIntoSentences('¿Vienes? Sí. «Claro.» Vale… Adiós!')).toEqual(['¿Vienes?', 'Sí.', '«Claro.»', 'Vale…', 'Adiós!']);
+  });
+
+  it('does not split decimals, times, domains, abbreviations or initials', () => {
+    expect(splitIntoSentences('Costó 2.50 dólares. Quedamos a las 10.30 en example.com con el Dr. Ruiz y J. Pérez. Fin.')).toEqual([
+      'Costó 2.50 dólares.',
+      'Quedamos a las 10.30 en example.com con el Dr. Ruiz y J. Pérez.',
+      'Fin.',
+    ]);
+  });
+
+  it('keeps text without final punctuation as the last sentence', () => {
+    expect(splitIntoSentences('Uno. dos tres')).toEqual(['Uno.', 'dos tres']);
+  });
+});
+
+describe('findSentenceSpans', () => {
+  it('returns trimmed offsets into the original text', () => {
+    const text = '  Hola.   Adiós.  ';
+    expect(findSentenceSpans(text)).toEqual([{ start: 2, end: 7 }, { start: 10, end: 16 }]);
+  });
+
+  it('limits the search to a range', () => {
+    const text = 'Fuera. Dentro uno. Dentro dos. Fuera.';
+    expect(findSentenceSpans(text, { start: 7, end: 30 }).map(s => text.slice(s.start, s.end))).toEqual(['Dentro uno.', 'Dentro dos.']);
+  });
+});
+
+describe('findParagraphSpans', () => {
+  it('splits at blank lines and keeps single line breaks inside a paragraph', () => {
+    const text = '\n Uno\ncontinúa.\n\n  \n Dos. \n';
+    expect(findParagraphSpans(text).map(p => text.slice(p.start, p.end))).toEqual(['Uno\ncontinúa.', 'Dos.']);
+  });
+});
+
+describe('splitTextIntoChunks', () => {
+  it('keeps each paragraph whole when it fits and marks where paragraphs end', () => {
+    expect(splitTextIntoChunks('Uno. Dos.\n\nTres.', 100)).toEqual([
+      { text: 'Uno. Dos.', endsParagraph: true },
+      { text: 'Tres.', endsParagraph: true },
+    ]);
+  });
+
+  it('cuts long paragraphs between sentences, packing as many as fit', () => {
+    expect(splitTextIntoChunks('Frase uno. Frase dos. Frase tres.', 22)).toEqual([
+      { text: 'Frase uno. Frase dos.', endsParagraph: false },
+      { text: 'Frase tres.', endsParagraph: true },
+    ]);
+  });
+
+  it('cuts sentences longer than the limit between words and keeps overlong words whole', () => {
+    expect(splitTextIntoChunks('uno dos tres supercalifragilístico cuatro', 10)).toEqual([
+      { text: 'uno dos', endsParagraph: false },
+      { text: 'tres', endsParagraph: false },
+      { text: 'supercalifragilístico', endsParagraph: false },
+      { text: 'cuatro', endsParagraph: true },
+    ]);
+  });
+
+  it('sends the original text unchanged, including decimals and spacing', () => {
+    const text = 'El PIB creció 3.5% el año pasado,  según el Sr. Gómez.\nY seguirá.';
+    expect(splitTextIntoChunks(text, 1500)).toEqual([{ text, endsParagraph: true }]);
+    expect(splitTextIntoChunks(text, 60).map(c => c.text)).toEqual([
+      'El PIB creció 3.5% el año pasado,  según el Sr. Gómez.',
+      'Y seguirá.',
+    ]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(splitTextIntoChunks(' \n\n ', 100)).toEqual([]);
+  });
+});
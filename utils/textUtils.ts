@@ -0,0 +1,133 @@
+export interface TextSpan {
+  start: number; // Offset in the source text
+  end: number; // Exclusive
+}
+
+// Sentence punctuation, with any closing quotes or brackets, followed by a space or the end.
+// "2.50", "10.30" and "example.com" have no space after the period, so they are not breaks.
+const SENTENCE_END = /[.!?…]+["'»”)\]]*(?=\s|$)/g;
+
+// Words whose period doesn't end the sentence ("Sr. García", "p. ej. esto")
+const ABBREVIATIONS = new Set([
+  'sr', 'sra', 'srta', 'sres', 'dr', 'dra', 'lic', 'ing', 'prof', 'arq', 'ud', 'uds', 'vd', 'vds',
+  'núm', 'pág', 'aprox', 'ej', 'mr', 'mrs', 'ms', 'st', 'vs',
+]);
+
+// A single period after an abbreviation or an initial ("J. Pérez")
+const isAbbreviation = (text: string, periodIndex: number): boolean => {
+  const word = text.slice(Math.max(0, periodIndex - 8), periodIndex).match(/\p{L}+$/u)?.[0];
+  return !!word && (word.length === 1 || ABBREVIATIONS.has(word.toLowerCase()));
+};
+
+// Trims the whitespace at both ends of a span, or returns null if nothing is left
+const trimSpan = (text: string, start: number, end: number): TextSpan | null => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+/**
+ * Finds the sentences of `text` (or of the `range` of it) as offsets into the text, so
+ * callers can cut the original text instead of re-joining trimmed pieces. Closing
+ * punctuation, quotes and brackets stay with their sentence.
+ */
+export const findSentenceSpans = (text: string, range: TextSpan = { start: 0, end: text.length }): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  const source = text.slice(range.start, range.end);
+  let start = 0;
+  const push = (end: number) => {
+    const span = trimSpan(text, range.start + start, range.start + end);
+    if (span) spans.push(span);
+    start = end;
+  };
+
+  for (const match of source.matchAll(SENTENCE_END)) {
+    if (match[0] === '.' && isAbbreviation(source, match.index!)) continue;
+    push(match.index! + match[0].length);
+  }
+  push(source.length);
+  return spans;
+};
+
+/**
+ * Finds the words (runs of non-space characters) of `text` or of the `range` of it.
+ */
+export const findWordSpans = (text: string, range: TextSpan = { start: 0, end: text.length }): TextSpan[] => {
+  return Array.from(text.slice(range.start, range.end).matchAll(/\S+/g), match => ({
+    start: range.start + match.index!,
+    end: range.start + match.index! + match[0].length,
+  }));
+};
+
+/**
+ * Splits text into sentences, keeping the closing punctuation (and any closing quotes or
+ * brackets) with each sentence.
+ */
+export const splitIntoSentences = (text: string): string[] => {
+  return findSentenceSpans(text).map(({ start, end }) => text.slice(start, end));
+};
+
+/**
+ * Finds the paragraphs of `text`, separated by one or more blank lines, as offsets into it.
+ */
+export const findParagraphSpans = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = 0;
+  for (const match of text.matchAll(/\n\s*\n/g)) {
+    const span = trimSpan(text, start, match.index!);
+    if (span) spans.push(span);
+    start = match.index! + match[0].length;
+  }
+  const last = trimSpan(text, start, text.length);
+  if (last) spans.push(last);
+  return spans;
+};
+
+export interface TextChunk {
+  text: string;
+  endsParagraph: boolean;
+}
+
+/**
+ * Splits text into pieces of at most `maxChars`, cutting at paragraph boundaries first,
+ * then between sentences, then between words. Pieces are cut from the original text, so
+ * what is read aloud is exactly what was written. A single word longer than `maxChars` is
+ * kept whole. Each piece records whether it closes a paragraph.
+ */
+export const splitTextIntoChunks = (text: string, maxChars: number): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  for (const paragraph of findParagraphSpans(text)) {
+    const pieces: TextSpan[] = [];
+    let current: TextSpan | null = null;
+
+    // Extends the current piece to the end of `unit` if it still fits
+    const append = (unit: TextSpan) => {
+      const start = current?.start ?? unit.start;
+      if (unit.end - start > maxChars) return false;
+      current = { start, end: unit.end };
+      return true;
+    };
+    const flush = () => {
+      if (current) pieces.push(current);
+      current = null;
+    };
+
+    for (const sentence of findSentenceSpans(text, paragraph)) {
+      if (append(sentence)) continue;
+      flush();
+      if (append(sentence)) continue;
+
+      for (const word of findWordSpans(text, sentence)) {
+        if (append(word)) continue;
+        flush();
+        current = word;
+      }
+    }
+    flush();
+
+    pieces.forEach((piece, i) => chunks.push({ text: text.slice(piece.start, piece.end), endsParagraph: i === pieces.length - 1 }));
+  }
+
+  return chunks;
+};
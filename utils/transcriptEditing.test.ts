@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { replaceInSegments } from './transcriptEditing';
+
+const segment = (text: string, start = 0): TranscriptSegment => ({ start, end: start + 1, speaker: 'Speaker 1', text });
+
+describe('replaceInSegments', () => {
+  it('replaces every occurrence, ignoring case unless asked', () => {
+    expect(replaceInSegments([segment('Hola hola HOLA')], 'hola', 'adiós').map(s => s.text)).toEqual(['adiós adiós adiós']);
+    expect(replaceInSegments([segment('Hola hola')], 'hola', 'adiós', { matchCase: true }).map(s => s.text)).toEqual(['Hola adiós']);
+  });
+
+  it('returns segments without a match untouched, even with irregular spacing', () => {
+    const untouched = segment('  dos   espacios  ');
+    const result = replaceInSegments([segment('eh vale'), untouched], 'eh', '');
+    expect(result[1]).toBe(untouched);
+  });
+
+  it('leaves one space where a word was removed and none at the edges', () => {
+    const texts = replaceInSegments([segment('eh vale'), segment('vale eh bien'), segment('vale eh'), segment('eh, bien')], 'eh', '');
+    expect(texts.map(s => s.text)).toEqual(['vale', 'vale bien', 'vale', ', bien']);
+  });
+
+  it('keeps the spacing of the rest of the segment', () => {
+    expect(replaceInSegments([segment('uno  dos\ntres eh cuatro')], 'eh ', '').map(s => s.text)).toEqual(['uno  dos\ntres cuatro']);
+  });
+
+  it('drops segments left empty', () => {
+    expect(replaceInSegments([segment('eh'), segment('vale', 1)], 'eh', '')).toEqual([segment('vale', 1)]);
+  });
+});
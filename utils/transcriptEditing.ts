@@ -0,0 +1,160 @@
+import { TranscriptSegment } from '../types';
+
+/**
+ * Renames a speaker in every segment. Renaming to an existing label merges the two speakers.
+ */
+export const renameSpeaker = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] => {
+  const name = to.trim();
+  if (!name || name === from) return segments;
+  return segments.map(segment => (segment.speaker === from ? { ...segment, speaker: name } : segment));
+};
+
+export interface FindOptions {
+  matchCase?: boolean;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findPattern = (query: string, { matchCase = false }: FindOptions): RegExp =>
+  new RegExp(escapeRegExp(query), matchCase ? 'g' : 'gi');
+
+/**
+ * Counts the occurrences of `query` across all segment texts.
+ */
+export const countMatches = (segments: TranscriptSegment[], query: string, options: FindOptions = {}): number => {
+  if (!query) return 0;
+  const pattern = findPattern(query, options);
+  return segments.reduce((count, segment) => count + (segment.text.match(pattern)?.length ?? 0), 0);
+};
+
+/**
+ * Replaces the matches of `pattern` in one text. Whitespace is tidied only where a match
+ * was replaced, so deleting a word leaves one space rather than two; the rest of the text
+ * is kept as it was.
+ */
+const replaceMatches = (text: string, pattern: RegExp, replacement: string): string => {
+  let result = '';
+  let cursor = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += text.slice(cursor, match.index);
+    const atSpace = result === '' || /\s$/.test(result);
+    result += atSpace ? replacement.trimStart() : replacement;
+    cursor = match.index! + match[0].length;
+    if (result === '' || /\s$/.test(result)) {
+      while (cursor < text.length && /\s/.test(text[cursor])) cursor++;
+      if (cursor === text.length) result = result.trimEnd();
+    }
+  }
+  return result + text.slice(cursor);
+};
+
+/**
+ * Replaces every occurrence of `query` in the segment texts. Segments without a match are
+ * returned as they were; segments left empty are dropped.
+ */
+export const replaceInSegments = (
+  segments: TranscriptSegment[],
+  query: string,
+  replacement: string,
+  options: FindOptions = {}
+): TranscriptSegment[] => {
+  if (!query) return segments;
+  const pattern = findPattern(query, options);
+  return segments
+    .map(segment => {
+      const text = replaceMatches(segment.text, pattern, replacement);
+      return text === segment.text ? segment : { ...segment, text };
+    })
+    .filter(segment => segment.text);
+};
+
+/**
+ * Replaces the text of one segment, keeping its timing. Clearing the text removes the segment.
+ */
+export const updateSegmentText = (segments: TranscriptSegment[], index: number, text: string): TranscriptSegment[] => {
+  const trimmed = text.trim();
+  if (trimmed === segments[index]?.text) return segments;
+  return trimmed
+    ? segments.map((segment, i) => (i === index ? { ...segment, text: trimmed } : segment))
+    : segments.filter((_, i) => i !== index);
+};
+
+/**
+ * Joins a segment with the next one. The result keeps the first speaker and spans both.
+ */
+export const mergeWithNext = (segments: TranscriptSegment[], index: number): TranscriptSegment[] => {
+  const first = segments[index];
+  const second = segments[index + 1];
+  if (!first || !second) return segments;
+  const merged: TranscriptSegment = {
+    start: first.start,
+    end: Math.max(first.end, second.end),
+    speaker: first.speaker,
+    text: `${first.text} ${second.text}`,
+  };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+/**
+ * Splits a segment at a character offset of `text` (the segment text by default). The split
+ * time is interpolated by character position, the same estimate used for word highlighting.
+ */
+export const splitSegment = (
+  segments: TranscriptSegment[],
+  index: number,
+  offset: number,
+  text: string = segments[index]?.text ?? ''
+): TranscriptSegment[] => {
+  const segment = segments[index];
+  if (!segment) return segments;
+  const head = text.slice(0, offset).trim();
+  const tail = text.slice(offset).trim();
+  if (!head || !tail) return updateSegmentText(segments, index, text);
+
+  const splitTime = segment.start + (segment.end - segment.start) * (offset / text.length);
+  return [
+    ...segments.slice(0, index),
+    { ...segment, end: splitTime, text: head },
+    { ...segment, start: splitTime, text: tail },
+    ...segments.slice(index + 1),
+  ];
+};
+
+export interface EditHistory<T> {
+  past: T[]; // Oldest first
+  future: T[]; // Next redo first
+}
+
+const MAX_UNDO_STEPS = 100;
+
+export const emptyEditHistory = <T>(): EditHistory<T> => ({ past: [], future: [] });
+
+/**
+ * Records `current` as an undo step before an edit replaces it. Any redo steps are discarded.
+ */
+export const recordEdit = <T>(history: EditHistory<T>, current: T): EditHistory<T> => ({
+  past: [...history.past, current].slice(-MAX_UNDO_STEPS),
+  future: [],
+});
+
+/**
+ * Steps back one edit, returning the value to restore, or null when there is nothing to undo.
+ */
+export const undoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    value: history.past[history.past.length - 1],
+  };
+};
+
+/**
+ * Reapplies the last undone edit, or returns null when there is nothing to redo.
+ */
+export const redoEdit = <T>(history: EditHistory<T>, current: T): { history: EditHistory<T>; value: T } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    value: history.future[0],
+  };
+};
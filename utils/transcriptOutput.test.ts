@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { applyOutputOptions, DEFAULT_TRANSCRIPT_OUTPUT, maskProfanity } from './transcriptOutput';
+
+const segment = (speaker: string, text: string): TranscriptSegment => ({ start: 0, end: 1, speaker, text });
+
+describe('maskProfanity', () => {
+  it('keeps the first letter and masks the rest, ignoring case and accents', () => {
+    expect(maskProfanity('¡Qué mierda! Ese CABRÓN dijo shit.')).toBe('¡Qué m*****! Ese C***** dijo s***.');
+  });
+
+  it('only masks whole words', () => {
+    expect(maskProfanity('la computadora, Shitake y la disputa')).toBe('la computadora, Shitake y la disputa');
+  });
+
+  it('leaves text the model already masked', () => {
+    expect(maskProfanity('qué m***** de día')).toBe('qué m***** de día');
+  });
+});
+
+describe('applyOutputOptions', () => {
+  const segments = [segment('Speaker 1', 'Hola, joder.'), segment('Speaker 2', 'Adiós.')];
+
+  it('returns the segments as they are with the default options', () => {
+    expect(applyOutputOptions(segments, DEFAULT_TRANSCRIPT_OUTPUT)).toBe(segments);
+  });
+
+  it('masks profanity when the option is on', () => {
+    expect(applyOutputOptions(segments, { ...DEFAULT_TRANSCRIPT_OUTPUT, maskProfanity: true })).toEqual([
+      segment('Speaker 1', 'Hola, j****.'),
+      segments[1],
+    ]);
+  });
+
+  it('labels every segment as one speaker when diarization is off or one speaker is expected', () => {
+    const expected = [segment('Speaker 1', 'Hola, joder.'), segment('Speaker 1', 'Adiós.')];
+    expect(applyOutputOptions(segments, { ...DEFAULT_TRANSCRIPT_OUTPUT, diarize: false })).toEqual(expected);
+    expect(applyOutputOptions(segments, { ...DEFAULT_TRANSCRIPT_OUTPUT, speakerCount: 1 })).toEqual(expected);
+  });
+});
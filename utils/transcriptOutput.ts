@@ -0,0 +1,85 @@
+import { TranscriptOutputOptions, TranscriptSegment, TranscriptStyle } from '../types';
+
+// Matches what the app produced before these options existed
+export const DEFAULT_TRANSCRIPT_OUTPUT: TranscriptOutputOptions = {
+  style: 'verbatim',
+  diarize: true,
+  eventTags: false,
+  maskProfanity: false,
+};
+
+export const TRANSCRIPT_STYLE_LABELS: Record<TranscriptStyle, string> = {
+  clean: 'Limpia',
+  verbatim: 'Literal',
+};
+
+export const MAX_SPEAKER_COUNT = 10;
+
+const DEFAULT_SPEAKER = 'Speaker 1';
+
+/**
+ * Builds the instructions of the transcription prompt that depend on the output options,
+ * one "- " line each.
+ */
+export const buildOutputPrompt = (output: TranscriptOutputOptions = DEFAULT_TRANSCRIPT_OUTPUT): string => {
+  const lines = [
+    output.style === 'clean'
+      ? "- If it is speech, produce a clean read: leave out fillers (um, uh, eh), false starts, stutters and repeated words, and fix obvious slips, without paraphrasing or changing the meaning."
+      : "- If it is speech, transcribe it verbatim, keeping fillers, false starts, stutters and repetitions exactly as spoken.",
+    "- Split the transcription into segments of one or two sentences, each with its start and end time in seconds from the beginning of the audio.",
+  ];
+
+  if (!output.diarize) {
+    lines.push(`- Do not tell speakers apart: use '${DEFAULT_SPEAKER}' for every segment.`);
+  } else if (output.speakerCount) {
+    lines.push(output.speakerCount === 1
+      ? `- There is a single speaker: use '${DEFAULT_SPEAKER}' for every segment.`
+      : `- There are ${output.speakerCount} speakers. Label them consistently by voice as Speaker 1 to Speaker ${output.speakerCount}, and start a new segment whenever the speaker changes.`);
+  } else {
+    lines.push(`- If there are multiple speakers, label them (Speaker 1, Speaker 2, ...) consistently by voice and start a new segment whenever the speaker changes. Otherwise use '${DEFAULT_SPEAKER}'.`);
+  }
+
+  lines.push(output.eventTags
+    ? "- Mark relevant non-speech sounds in square brackets where they happen, e.g. [laughter], [applause], [music], [crosstalk], [inaudible]."
+    : "- Transcribe only what is said; do not describe non-speech sounds.");
+
+  if (output.maskProfanity) {
+    lines.push("- Mask profanity and slurs: keep the first letter and replace the rest with asterisks (e.g. 'm****').");
+  }
+  return lines.join('\n');
+};
+
+// Common profanity in Spanish and English, without accents. Words that are also ordinary
+// words in some regions ("polla", "zorra", "hostia") are left to the model.
+const PROFANITY = new Set([
+  'mierda', 'joder', 'jodido', 'jodida', 'jodidos', 'jodidas', 'cono', 'carajo', 'puta', 'puto', 'putas', 'putos',
+  'putada', 'cabron', 'cabrona', 'cabrones', 'gilipollas', 'pendejo', 'pendeja', 'pendejos', 'pendejas',
+  'chingar', 'chingada', 'chingado', 'verga', 'cojones', 'culero', 'follar', 'maricon',
+  'fuck', 'fucks', 'fucking', 'fucked', 'fucker', 'motherfucker', 'shit', 'shitty', 'bullshit',
+  'bitch', 'bitches', 'asshole', 'assholes', 'bastard', 'bastards', 'cunt',
+]);
+
+const normalizeWord = (word: string): string => word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Masks the listed profanity the way the prompt asks the model to: the first letter stays
+ * and the rest become asterisks ("m*****").
+ */
+export const maskProfanity = (text: string): string => {
+  return text.replace(/\p{L}+/gu, word => (PROFANITY.has(normalizeWord(word)) ? word[0] + '*'.repeat(word.length - 1) : word));
+};
+
+/**
+ * Enforces the options the model may not follow to the letter: with diarization off, or a
+ * single expected speaker, every segment gets the same label, and with profanity masking
+ * on, the words of a built-in list are masked even if the model left them.
+ */
+export const applyOutputOptions = (segments: TranscriptSegment[], output: TranscriptOutputOptions = DEFAULT_TRANSCRIPT_OUTPUT): TranscriptSegment[] => {
+  const singleSpeaker = !output.diarize || output.speakerCount === 1;
+  if (!singleSpeaker && !output.maskProfanity) return segments;
+  return segments.map(segment => {
+    const speaker = singleSpeaker ? DEFAULT_SPEAKER : segment.speaker;
+    const text = output.maskProfanity ? maskProfanity(segment.text) : segment.text;
+    return speaker === segment.speaker && text === segment.text ? segment : { ...segment, speaker, text };
+  });
+};
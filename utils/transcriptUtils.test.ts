@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../types';
+import { stitchChunkTranscripts } from './transcriptUtils';
+
+const segment = (start: number, end: number, text: string, speaker = 'Speaker 1'): TranscriptSegment => ({ start, end, speaker, text });
+
+describe('stitchChunkTranscripts', () => {
+  it('offsets each chunk by its start', () => {
+    const stitched = stitchChunkTranscripts([
+      { start: 0, end: 10, segments: [segment(1, 3, 'Uno.')] },
+      { start: 8, end: 20, segments: [segment(4, 6, 'Dos.')] },
+      { start: 18, end: 25, segments: [segment(2, 4, 'Tres.')] },
+    ]);
+    expect(stitched).toEqual([segment(1, 3, 'Uno.'), segment(12, 14, 'Dos.'), segment(20, 22, 'Tres.')]);
+  });
+
+  it('drops the segments both chunks heard in their overlap', () => {
+    const stitched = stitchChunkTranscripts([
+      { start: 0, end: 10, segments: [segment(0, 4, 'Hola a todos.'), segment(4.5, 9.5, 'Empezamos con el primer punto.')] },
+      { start: 6, end: 16, segments: [segment(0, 3.5, 'el primer punto.'), segment(3.8, 8, 'Segundo punto.')] },
+    ]);
+    expect(stitched.map(s => s.text)).toEqual(['Hola a todos.', 'Empezamos con el primer punto.', 'Segundo punto.']);
+    expect(stitched[2]).toMatchObject({ start: 9.8, end: 14 });
+  });
+
+  it('keeps a segment cut off by the previous chunk without its repeated words', () => {
+    const stitched = stitchChunkTranscripts([
+      { start: 0, end: 10, segments: [segment(0, 5, 'Buenos días.'), segment(6, 10, 'y entonces dijimos que')] },
+      { start: 6, end: 16, segments: [segment(0, 6, 'y entonces dijimos que vendríamos mañana.')] },
+    ]);
+    expect(stitched).toEqual([
+      segment(0, 5, 'Buenos días.'),
+      segment(6, 10, 'y entonces dijimos que'),
+      segment(10, 12, 'vendríamos mañana.'),
+    ]);
+  });
+
+  it('handles a final chunk shorter than the overlap', () => {
+    const stitched = stitchChunkTranscripts([
+      { start: 0, end: 12, segments: [segment(0, 5, 'Primera frase.'), segment(8.2, 9.5, 'Casi al final.'), segment(10.2, 11, 'Cola.')] },
+      { start: 8, end: 11, segments: [segment(0.2, 1.5, 'Casi al final.'), segment(2.2, 3, 'Cola.')] },
+    ]);
+    expect(stitched).toEqual([segment(0, 5, 'Primera frase.'), segment(8.2, 9.5, 'Casi al final.'), segment(10.2, 11, 'Cola.')]);
+  });
+});
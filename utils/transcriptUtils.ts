@@ -0,0 +1,224 @@
+import { ActionItem, TranscriptChapter, TranscriptSegment } from '../types';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value);
+
+/**
+ * Validates the structured transcription returned by the model and normalizes it
+ * into an ordered list of segments. Segments with unusable timing or empty text are dropped;
+ * a payload that is not shaped like a transcript at all throws.
+ */
+export const parseTranscriptSegments = (payload: unknown): TranscriptSegment[] => {
+  const rawSegments = Array.isArray(payload)
+    ? payload
+    : (payload as { segments?: unknown } | null)?.segments;
+
+  if (!Array.isArray(rawSegments)) {
+    throw new Error("Transcription response does not contain a segments array.");
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const raw of rawSegments) {
+    if (!raw || typeof raw !== 'object') continue;
+    const { start, end, speaker, text } = raw as Record<string, unknown>;
+
+    if (typeof text !== 'string' || !text.trim()) continue;
+    if (!isFiniteNumber(start) || start < 0) continue;
+
+    segments.push({
+      start,
+      // The model occasionally omits or inverts the end time; clamp it to the start
+      end: isFiniteNumber(end) && end >= start ? end : start,
+      speaker: typeof speaker === 'string' && speaker.trim() ? speaker.trim() : 'Speaker 1',
+      text: text.trim(),
+    });
+  }
+
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Reads the language tag the model reports alongside the segments, if any.
+ */
+export const parseDetectedLanguage = (payload: unknown): string | undefined => {
+  const language = (payload as { language?: unknown } | null)?.language;
+  return typeof language === 'string' && language.trim() ? language.trim() : undefined;
+};
+
+const readArray = (payload: unknown, key: string): unknown[] => {
+  const value = Array.isArray(payload) ? payload : (payload as Record<string, unknown> | null)?.[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Response does not contain a ${key} array.`);
+  }
+  return value;
+};
+
+const readString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Validates the action items returned by the model, dropping entries without a task.
+ */
+export const parseActionItems = (payload: unknown): ActionItem[] => {
+  return readArray(payload, 'items').flatMap(raw => {
+    const { task, owner } = (raw ?? {}) as Record<string, unknown>;
+    const text = readString(task);
+    return text ? [{ task: text, owner: readString(owner) }] : [];
+  });
+};
+
+/**
+ * Validates the chapters returned by the model and orders them by start time.
+ */
+export const parseChapters = (payload: unknown): TranscriptChapter[] => {
+  return readArray(payload, 'chapters')
+    .flatMap(raw => {
+      const { start, title } = (raw ?? {}) as Record<string, unknown>;
+      const text = readString(title);
+      return text && isFiniteNumber(start) && start >= 0 ? [{ start, title: text }] : [];
+    })
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Validates the keywords returned by the model, dropping blanks and case-insensitive repeats.
+ */
+export const parseKeywords = (payload: unknown): string[] => {
+  const seen = new Set<string>();
+  return readArray(payload, 'keywords').flatMap(raw => {
+    const keyword = readString(raw);
+    if (!keyword || seen.has(keyword.toLowerCase())) return [];
+    seen.add(keyword.toLowerCase());
+    return [keyword];
+  });
+};
+
+/**
+ * Picks the language reported most often across chunks, preferring the earliest on ties.
+ */
+export const pickDominantLanguage = (languages: (string | undefined)[]): string | undefined => {
+  const counts = new Map<string, number>();
+  languages.forEach(language => {
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  });
+  let best: string | undefined;
+  counts.forEach((count, language) => {
+    if (best === undefined || count > counts.get(best)!) best = language;
+  });
+  return best;
+};
+
+/**
+ * Renders segments as plain text, one line per segment, prefixed with the speaker label.
+ */
+export const segmentsToText = (segments: TranscriptSegment[]): string => {
+  return segments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n');
+};
+
+export interface ChunkTranscript {
+  start: number; // Offset of the chunk in the full recording, in seconds
+  end: number;
+  segments: TranscriptSegment[]; // Timestamps relative to the chunk start
+}
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Shorter matches are too likely to be coincidences ("y el", "the")
+const MIN_OVERLAP_WORDS = 2;
+const MAX_OVERLAP_WORDS = 30;
+
+/**
+ * Removes the leading words of `next` that repeat the trailing words of `previous`.
+ */
+const removeRepeatedLead = (previous: string, next: string): string => {
+  const prevWords = previous.split(/\s+/).map(normalizeWord);
+  const nextWords = next.split(/\s+/);
+  const nextNormalized = nextWords.map(normalizeWord);
+  const maxLength = Math.min(MAX_OVERLAP_WORDS, prevWords.length, nextWords.length);
+
+  for (let length = maxLength; length >= MIN_OVERLAP_WORDS; length--) {
+    const tail = prevWords.slice(prevWords.length - length);
+    const head = nextNormalized.slice(0, length);
+    if (tail.every((word, i) => word === head[i])) {
+      return nextWords.slice(length).join(' ');
+    }
+  }
+  return next;
+};
+
+/**
+ * Stitches per-chunk transcripts into one transcript with global timestamps.
+ * Each chunk owns the segments that start between the midpoints of its overlaps with
+ * its neighbours; words repeated across a cut are removed from the later segment.
+ * Speaker labels are kept as returned for each chunk and may not match across chunks.
+ */
+export const stitchChunkTranscripts = (chunks: ChunkTranscript[]): TranscriptSegment[] => {
+  const stitched: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const previous = chunks[i - 1];
+    const next = chunks[i + 1];
+    const keepFrom = previous ? (previous.end + chunk.start) / 2 : -Infinity;
+    const keepUntil = next ? (chunk.end + next.start) / 2 : Infinity;
+    let isFirstKept = true;
+
+    for (const segment of chunk.segments) {
+      const start = segment.start + chunk.start;
+      const end = segment.end + chunk.start;
+      if (start >= keepUntil) continue;
+      // A segment that starts before the cut is still kept when it runs past the end of the
+      // previous chunk, since that chunk could not have heard all of it
+      if (start < keepFrom && !(previous && end > previous.end)) continue;
+
+      let text = segment.text;
+      let adjustedStart = start;
+      const last = stitched[stitched.length - 1];
+      if (isFirstKept && previous && last) {
+        text = removeRepeatedLead(last.text, text).trim();
+        // The repeated words were already timed by the previous segment
+        if (text !== segment.text) adjustedStart = Math.min(Math.max(start, last.end), end);
+      }
+      isFirstKept = false;
+      if (!text) continue;
+
+      stitched.push({ ...segment, start: adjustedStart, end, text });
+    }
+  });
+
+  return stitched;
+};
+
+export interface TimedWord {
+  text: string;
+  start: number; // Estimated, in seconds
+}
+
+/**
+ * Splits a segment into words with estimated start times. The model only times whole
+ * segments, so each word is placed by its character offset within the segment.
+ */
+export const estimateWordTimes = (segment: TranscriptSegment): TimedWord[] => {
+  const words = segment.text.split(/\s+/).filter(Boolean);
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0) || 1;
+  const span = segment.end - segment.start;
+
+  let offset = 0;
+  return words.map(word => {
+    const start = segment.start + (offset / totalChars) * span;
+    offset += word.length;
+    return { text: word, start };
+  });
+};
+
+/**
+ * Returns the index of the segment playing at `time`, or -1 before the first one starts.
+ * Gaps between segments keep the previous segment active so the highlight doesn't flicker.
+ */
+export const findActiveSegmentIndex = (segments: TranscriptSegment[], time: number): number => {
+  let active = -1;
+  for (let i = 0; i < segments.length && segments[i].start <= time; i++) {
+    active = i;
+  }
+  return active;
+};
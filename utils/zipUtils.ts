@@ -0,0 +1,103 @@
+import { bytesToBlob } from './audioUtils';
+
+/**
+ * Minimal ZIP writer. Entries are stored without compression: the archives only hold text
+ * transcripts, which are small enough that deflate isn't worth a dependency.
+ */
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, using forward slashes
+  data: Uint8Array | string; // Strings are written as UTF-8
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let j = 0; j < 8; j++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = (crc >>> 8) ^ CRC32_TABLE[(crc ^ bytes[i]) & 0xff];
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, in local time with two-second resolution
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(0, date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const UTF8_FLAG = 0x0800; // Marks names as UTF-8 so accented file names survive
+
+/**
+ * Bundles files into a ZIP archive.
+ * @param entries - The files to store, in archive order.
+ * @param modified - Modification time recorded for every entry.
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Blob => {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, dos.time, true);
+    localView.setUint16(12, dos.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true); // Compressed size
+    localView.setUint32(22, data.length, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, dos.time, true);
+    centralView.setUint16(14, dos.date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true); // Offset of the local header
+    central.set(name, 46);
+
+    parts.push(local, data);
+    centralDirectory.push(central);
+    offset += local.length + data.length;
+  });
+
+  const directorySize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true); // Entries on this disk
+  endView.setUint16(10, entries.length, true); // Entries in total
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true); // Offset of the central directory
+
+  return bytesToBlob([...parts, ...centralDirectory, end], 'application/zip');
+};